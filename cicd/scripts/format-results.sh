@@ -33,7 +33,7 @@ JQ_FILTER='
 .results[] |
 "================================================================================",
 "TEST: \(.testId // .test_id) - \(.name)",
-"Suite: \(.suite) | Pass: \(.pass) | Duration: \(.duration)ms",
+"Suite: \(.suite) | Status: \(.status // (if .pass then "passed" else "failed" end)) | Duration: \(.duration)ms",
 "Reason: \(.reason // "N/A")",
 "================================================================================",
 (.steps // [] | .[] |
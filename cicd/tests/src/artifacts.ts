@@ -0,0 +1,49 @@
+/**
+ * Artifact collection - copies files matching a test's `artifacts:` globs
+ * into `<outputDir>/<TEST_ID>/artifacts/`.
+ *
+ * Relative globs are matched from the test's working directory. Files keep
+ * their path relative to that directory, or to the test's temp directory
+ * for files inside it; other files are copied by name.
+ */
+
+import { copyFileSync, mkdirSync } from 'fs';
+import path from 'path';
+import { glob } from 'glob';
+
+function isInside(file: string, dir: string): boolean {
+  const rel = path.relative(dir, file);
+  return rel !== '' && !rel.startsWith('..') && !path.isAbsolute(rel);
+}
+
+/**
+ * Copy every file matching the patterns into `destDir`. Returns the copied
+ * files' destination paths.
+ */
+export async function collectArtifacts(
+  patterns: string[],
+  baseDir: string,
+  tmpDir: string,
+  destDir: string
+): Promise<string[]> {
+  const copied: string[] = [];
+
+  for (const pattern of patterns) {
+    const files = await glob(pattern, { cwd: baseDir, nodir: true, absolute: true, dot: true });
+    for (const file of files.sort()) {
+      const rel = isInside(file, tmpDir)
+        ? path.join('tmp', path.relative(tmpDir, file))
+        : isInside(file, baseDir)
+          ? path.relative(baseDir, file)
+          : path.basename(file);
+      const dest = path.join(destDir, rel);
+      if (copied.includes(dest)) continue;
+
+      mkdirSync(path.dirname(dest), { recursive: true });
+      copyFileSync(file, dest);
+      copied.push(dest);
+    }
+  }
+
+  return copied;
+}
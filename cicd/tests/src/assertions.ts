@@ -0,0 +1,95 @@
+/**
+ * Structured assertions on JSON step output.
+ *
+ * Each assertion names a path (capture path syntax) and one operator:
+ * equals, contains, exists, gt, lt, matches, length.
+ */
+
+import { JsonAssertion, AssertionOperator, AssertionResult } from './types.js';
+import { resolvePath, parseJsonOutput } from './json-path.js';
+
+export const ASSERTION_OPERATORS: AssertionOperator[] = [
+  'equals',
+  'contains',
+  'exists',
+  'gt',
+  'lt',
+  'matches',
+  'length',
+];
+
+/**
+ * The operator an assertion uses (the first operator key present).
+ */
+export function getOperator(assertion: JsonAssertion): AssertionOperator | undefined {
+  return ASSERTION_OPERATORS.find((op) => assertion[op] !== undefined);
+}
+
+/**
+ * Compare two values. Primitives also match on their string form, since
+ * YAML and captured variables often turn numbers into strings.
+ */
+function isEqual(actual: unknown, expected: unknown): boolean {
+  if (JSON.stringify(actual) === JSON.stringify(expected)) return true;
+  const isPrimitive = (v: unknown) => v !== null && typeof v !== 'object';
+  return isPrimitive(actual) && isPrimitive(expected) && String(actual) === String(expected);
+}
+
+function lengthOf(value: unknown): number | undefined {
+  if (typeof value === 'string' || Array.isArray(value)) return value.length;
+  if (typeof value === 'object' && value !== null) return Object.keys(value).length;
+  return undefined;
+}
+
+function check(operator: AssertionOperator, actual: unknown, expected: unknown): boolean {
+  switch (operator) {
+    case 'equals':
+      return isEqual(actual, expected);
+    case 'contains':
+      if (Array.isArray(actual)) return actual.some((item) => isEqual(item, expected));
+      if (typeof actual === 'string') return actual.includes(String(expected));
+      if (typeof actual === 'object' && actual !== null) return String(expected) in actual;
+      return false;
+    case 'exists':
+      return (actual !== undefined) === (expected !== false);
+    case 'gt':
+      return actual !== null && actual !== undefined && Number(actual) > Number(expected);
+    case 'lt':
+      return actual !== null && actual !== undefined && Number(actual) < Number(expected);
+    case 'matches':
+      return actual !== undefined && new RegExp(String(expected)).test(
+        typeof actual === 'string' ? actual : JSON.stringify(actual)
+      );
+    case 'length':
+      return lengthOf(actual) === Number(expected);
+  }
+}
+
+/**
+ * Evaluate assertions against step stdout. If stdout is not JSON, every
+ * assertion fails with that explanation.
+ */
+export function evaluateAssertions(stdout: string, assertions: JsonAssertion[]): AssertionResult[] {
+  let parsed: unknown;
+  let parseError: string | null = null;
+  try {
+    parsed = parseJsonOutput(stdout);
+  } catch {
+    parseError = 'Output is not valid JSON';
+  }
+
+  return assertions.map((assertion) => {
+    const operator = getOperator(assertion)!;
+    const expected = assertion[operator];
+
+    if (parseError) {
+      return { path: assertion.path, operator, expected, pass: false, message: parseError };
+    }
+
+    const actual = resolvePath(parsed, assertion.path);
+    const actualForReport = operator === 'length' ? lengthOf(actual) : actual;
+    const pass = check(operator, actual, expected);
+
+    return { path: assertion.path, operator, expected, actual: actualForReport, pass };
+  });
+}
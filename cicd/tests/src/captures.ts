@@ -0,0 +1,78 @@
+/**
+ * Variable capture from step results.
+ *
+ * A capture is either a JSON path string (shorthand for `from: json`) or a
+ * spec naming its source: a JSON path, a regex over stdout/stderr, the raw
+ * trimmed stdout/stderr, the exit code, or the duration.
+ */
+
+import { CaptureSpec, StepResult } from './types.js';
+import { resolvePath, parseJsonOutput } from './json-path.js';
+
+/**
+ * Expand the JSON path shorthand into a full spec.
+ */
+export function toCaptureSpec(capture: string | CaptureSpec): CaptureSpec {
+  return typeof capture === 'string' ? { from: 'json', path: capture } : capture;
+}
+
+/**
+ * Pick the value of a regex match: the group named in the spec, else the
+ * group named like the variable, else the first named group, else the first
+ * group, else the whole match.
+ */
+function matchValue(match: RegExpMatchArray, spec: CaptureSpec, varName: string): string | undefined {
+  const groups = match.groups ?? {};
+  if (spec.group) return groups[spec.group];
+  if (groups[varName] !== undefined) return groups[varName];
+  const named = Object.values(groups).find((v) => v !== undefined);
+  return named ?? match[1] ?? match[0];
+}
+
+/**
+ * Extract one captured value from a step result. Returns the value, or an
+ * error explaining why it was not found.
+ */
+export function extractCapture(
+  spec: CaptureSpec,
+  varName: string,
+  result: StepResult
+): { value?: string; error?: string } {
+  const from = spec.from ?? 'json';
+
+  switch (from) {
+    case 'exitCode':
+      return { value: String(result.exitCode) };
+
+    case 'duration':
+      return { value: String(result.duration) };
+
+    case 'stdout':
+    case 'stderr': {
+      const text = result[from];
+      if (!spec.regex) {
+        const trimmed = text.trim();
+        return trimmed ? { value: trimmed } : { error: `${from} is empty` };
+      }
+      const match = text.match(new RegExp(spec.regex, 'm'));
+      const value = match ? matchValue(match, spec, varName) : undefined;
+      return value !== undefined
+        ? { value }
+        : { error: `Pattern /${spec.regex}/ not found in ${from}` };
+    }
+
+    case 'json': {
+      let parsed: unknown;
+      try {
+        parsed = parseJsonOutput(result.stdout);
+      } catch {
+        return { error: 'stdout is not valid JSON' };
+      }
+      const value = resolvePath(parsed, spec.path ?? '$');
+      if (value === undefined) {
+        return { error: `Capture field '${spec.path}' not found in response` };
+      }
+      return { value: typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value) };
+    }
+  }
+}
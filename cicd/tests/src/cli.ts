@@ -5,17 +5,214 @@
  * Usage:
  *   npx tsx src/cli.ts run [options]
  *   npx tsx src/cli.ts list [options]
+ *   npx tsx src/cli.ts merge <dirs...> [options]
+ *   npx tsx src/cli.ts validate [files...] [options]
+ *   npx tsx src/cli.ts graph [options]
  */
 
 import { Command } from 'commander';
+import chalk from 'chalk';
 import path from 'path';
 import { mkdirSync, existsSync } from 'fs';
 import { TestLoader } from './loader.js';
 import { TestExecutor } from './executor.js';
 import { SimpleJudge, LLMJudge } from './judge/index.js';
 import { JsonReporter, ConsoleReporter } from './reporter/index.js';
-import { RunConfig, DEFAULT_CONFIG } from './types.js';
+import {
+  RunConfig,
+  DEFAULT_CONFIG,
+  TestCase,
+  TestResult,
+  TestReport,
+  TestStatus,
+  Judgment,
+  SuiteHooks,
+} from './types.js';
 import { CONFIG } from './config.js';
+import { parseShard, loadPastDurations, selectShard } from './shard.js';
+import { FileWatcher } from './file-watcher.js';
+import { TestValidator, TestValidationError, ValidationIssue } from './validator.js';
+import { renderDot, renderMermaid } from './dependency-graph.js';
+
+type Judge = (
+  results: TestResult[]
+) => Promise<{ simpleJudgments: Judgment[]; llmJudgments: Judgment[] }>;
+
+/**
+ * Apply the --suite, --id and --tag filters.
+ */
+function filterTestCases(
+  testCases: TestCase[],
+  config: Pick<RunConfig, 'suite' | 'testId' | 'tag'>
+): TestCase[] {
+  let filtered = testCases;
+
+  if (config.suite) {
+    filtered = filtered.filter((tc) => tc.suite === config.suite);
+  }
+
+  if (config.testId) {
+    filtered = filtered.filter(
+      (tc) => tc.id === config.testId || tc.parentId === config.testId
+    );
+  }
+
+  if (config.tag) {
+    filtered = filtered.filter((tc) => tc.tags?.includes(config.tag!));
+  }
+
+  return filtered;
+}
+
+/**
+ * Format a validation issue as `file:line:column: severity: message`.
+ */
+function formatIssue(issue: ValidationIssue): string {
+  const severity = issue.severity === 'error' ? chalk.red('error') : chalk.yellow('warning');
+  return `${path.relative(process.cwd(), issue.file)}:${issue.line}:${issue.column}: ${severity}: ${issue.message}`;
+}
+
+/**
+ * Wait for the loader and exit with its validation errors when a test case
+ * or suite file is invalid.
+ */
+async function exitOnValidationErrors<T>(load: Promise<T>): Promise<T> {
+  try {
+    return await load;
+  } catch (error) {
+    if (!(error instanceof TestValidationError)) throw error;
+    for (const issue of error.issues) {
+      process.stderr.write(`[ERROR] ${formatIssue(issue)}\n`);
+    }
+    process.stderr.write(`[ERROR] ${error.message}\n`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Exit when a dependency names an unknown test or dependencies form a cycle.
+ */
+function exitOnDependencyErrors(loader: TestLoader, testCases: TestCase[]): void {
+  const errors = loader.checkDependencies(testCases);
+  if (errors.length === 0) return;
+  for (const error of errors) {
+    process.stderr.write(`[ERROR] ${error}\n`);
+  }
+  process.exit(1);
+}
+
+/**
+ * Watch mode: run the selected tests, then, whenever watched files change,
+ * re-run the selected tests whose definition or suite hooks changed, with
+ * the dependencies they need. A change to a source glob re-runs every
+ * selected test. The log collector keeps running between runs.
+ */
+async function watchTests(
+  testCases: TestCase[],
+  allTestCases: TestCase[],
+  suiteHooks: Map<string, SuiteHooks>,
+  env: {
+    config: RunConfig;
+    loader: TestLoader;
+    executor: TestExecutor;
+    judge: Judge;
+    testcasesDir: string;
+    sources: string[];
+    suiteName: string;
+  }
+): Promise<void> {
+  const { config, loader, executor, judge, testcasesDir, sources, suiteName } = env;
+  const patterns = [path.join(testcasesDir, '**/*.yml'), ...sources];
+  const watcher = new FileWatcher(patterns, config.workingDir);
+  const jsonReporter = new JsonReporter(config.outputDir);
+  const consoleReporter = new ConsoleReporter();
+  const statuses = new Map<string, TestStatus>();
+  let known = new Map(allTestCases.map((tc) => [tc.id, JSON.stringify(tc)]));
+  let hooks = suiteHooks;
+
+  process.on('SIGINT', () => watcher.stop());
+  process.on('SIGTERM', () => watcher.stop());
+
+  const runOnce = async (tests: TestCase[]) => {
+    const startTime = new Date();
+    const results = await executor.executeAll(tests, hooks);
+    const { simpleJudgments, llmJudgments } = await judge(results);
+    const { summary, reports } = jsonReporter.generateReports(
+      results,
+      simpleJudgments,
+      llmJudgments,
+      startTime,
+      suiteName
+    );
+    jsonReporter.writeReports(summary, reports);
+    consoleReporter.reportDelta(summary, reports, statuses);
+    for (const report of reports) {
+      statuses.set(report.testId, report.status);
+    }
+  };
+
+  await executor.startLogCollector(testCases);
+  await watcher.start();
+  await runOnce(testCases);
+
+  while (!executor.interruptReason) {
+    process.stderr.write(
+      `\n[WATCH] Waiting for changes to ${patterns.map((p) => path.relative(config.workingDir, p) || p).join(', ')} (Ctrl+C to stop)\n`
+    );
+    const changed = await watcher.waitForChanges();
+    if (changed.length === 0) break;
+    process.stderr.write(
+      `[WATCH] Changed: ${changed.map((f) => path.relative(config.workingDir, f)).join(', ')}\n`
+    );
+
+    let all: TestCase[];
+    let allHooks: Map<string, SuiteHooks>;
+    try {
+      all = await loader.loadAll();
+      allHooks = await loader.loadSuiteHooks();
+    } catch (error) {
+      if (!(error instanceof TestValidationError)) throw error;
+      for (const issue of error.issues) {
+        process.stderr.write(`[ERROR] ${formatIssue(issue)}\n`);
+      }
+      continue;
+    }
+    const dependencyErrors = loader.checkDependencies(all);
+    if (dependencyErrors.length > 0) {
+      for (const error of dependencyErrors) {
+        process.stderr.write(`[ERROR] ${error}\n`);
+      }
+      continue;
+    }
+    const selected = filterTestCases(all, config);
+    const sourceChanged = changed.some((f) => path.relative(testcasesDir, f).startsWith('..'));
+    const affected = sourceChanged
+      ? selected
+      : selected.filter(
+          (tc) =>
+            known.get(tc.id) !== JSON.stringify(tc) ||
+            JSON.stringify(hooks.get(tc.suite)) !== JSON.stringify(allHooks.get(tc.suite))
+        );
+    known = new Map(all.map((tc) => [tc.id, JSON.stringify(tc)]));
+    hooks = allHooks;
+
+    if (affected.length === 0) {
+      process.stderr.write('[WATCH] No selected tests affected\n');
+      continue;
+    }
+
+    const { tests, autoIncluded } = loader.resolveDependencies(affected, all);
+    process.stderr.write(
+      `[WATCH] Re-running ${affected.length} test(s)` +
+        (autoIncluded.length > 0 ? ` with ${autoIncluded.length} dependency test(s)` : '') +
+        '\n'
+    );
+    await runOnce(loader.sortByDependencies(tests));
+  }
+
+  watcher.stop();
+  await executor.stopLogCollector();
+}
 
 const program = new Command();
 
@@ -31,7 +228,7 @@ program
   .command('run')
   .description('Run test cases')
   .option('-s, --suite <suite>', 'Run only tests from this suite')
-  .option('-i, --id <id>', 'Run only the test with this ID')
+  .option('-i, --id <id>', 'Run only the test with this ID (a matrix parent ID runs all its cases)')
   .option('-t, --tag <tag>', 'Run only tests with this tag')
   .option('--dry-run', 'Show what would run without executing', false)
   .option('--no-llm', 'Skip LLM judging (simple judge only)')
@@ -39,9 +236,47 @@ program
   .option('--judge-model <model>', 'Model to use for LLM judging', CONFIG.llm.defaultModel)
   .option('-o, --output-dir <dir>', 'Output directory for results')
   .option('-f, --format <format>', 'Output format (console, json)', 'console')
+  .option('-j, --jobs <n>', 'Run up to N independent tests in parallel', '1')
+  .option('-v, --verbose', 'Stream step output live', false)
+  .option('--shard <i/n>', 'Run only shard i of n (dependency chains stay on one shard)')
+  .option('--durations-from <dir>', 'Results directory with past runs for shard balancing')
+  .option('--max-run-time <seconds>', 'Stop the run after this many seconds and report what finished')
+  .option('--rerun-failed <n>', 'Rerun failed tests (and their dependencies) up to N times', '0')
+  .option('-u, --update-snapshots', 'Rewrite the golden files of snapshot steps with the current output', false)
+  .option('-w, --watch', 'Re-run changed tests (and their dependencies) when files change', false)
+  .option('--watch-source <globs...>', 'Also watch these globs (relative to the project root); a change re-runs all selected tests')
   .action(async (options) => {
     const startTime = new Date();
 
+    const jobs = parseInt(options.jobs, 10);
+    if (!Number.isInteger(jobs) || jobs < 1) {
+      process.stderr.write(`[ERROR] Invalid --jobs value: ${options.jobs}\n`);
+      process.exit(1);
+    }
+
+    const shard = options.shard ? parseShard(options.shard) : undefined;
+    if (shard === null) {
+      process.stderr.write(`[ERROR] Invalid --shard value: ${options.shard} (expected i/n, e.g. 2/4)\n`);
+      process.exit(1);
+    }
+
+    const rerunFailed = parseInt(options.rerunFailed, 10);
+    if (!Number.isInteger(rerunFailed) || rerunFailed < 0) {
+      process.stderr.write(`[ERROR] Invalid --rerun-failed value: ${options.rerunFailed}\n`);
+      process.exit(1);
+    }
+
+    if (options.watch && (shard || rerunFailed > 0 || options.maxRunTime)) {
+      process.stderr.write('[ERROR] --watch cannot be combined with --shard, --rerun-failed or --max-run-time\n');
+      process.exit(1);
+    }
+
+    const maxRunTime = options.maxRunTime ? Number(options.maxRunTime) : undefined;
+    if (maxRunTime !== undefined && !(maxRunTime > 0)) {
+      process.stderr.write(`[ERROR] Invalid --max-run-time value: ${options.maxRunTime}\n`);
+      process.exit(1);
+    }
+
     // Resolve paths
     const testsDir = path.dirname(new URL(import.meta.url).pathname);
     const projectRoot = path.resolve(testsDir, '..', '..', '..');
@@ -51,7 +286,10 @@ program
     // Generate output directory with timestamp
     const timestamp = startTime.toISOString().replace(/[:.]/g, '-').substring(0, 19);
     const suiteName = options.suite || 'all';
-    const outputDir = options.outputDir || path.join(testsDir, '..', '..', 'results', `${timestamp}_${suiteName}`);
+    const resultsDir = path.join(testsDir, '..', '..', 'results');
+    const shardSuffix = shard ? `_shard-${shard.index}-of-${shard.total}` : '';
+    const outputDir =
+      options.outputDir || path.join(resultsDir, `${timestamp}_${suiteName}${shardSuffix}`);
 
     if (!existsSync(outputDir)) {
       mkdirSync(outputDir, { recursive: true });
@@ -69,6 +307,12 @@ program
       outputFormat: options.format as RunConfig['outputFormat'],
       workingDir: projectRoot,
       dockerComposePath: dockerDir,
+      jobs,
+      verbose: options.verbose,
+      shard,
+      maxRunTime: maxRunTime && maxRunTime * 1000,
+      rerunFailed,
+      updateSnapshots: options.updateSnapshots,
     };
 
     process.stderr.write(`\n[CONFIG] Project root: ${projectRoot}\n`);
@@ -76,30 +320,20 @@ program
     process.stderr.write(`[CONFIG] Testcases: ${testcasesDir}\n`);
     process.stderr.write(`[CONFIG] Output: ${outputDir}\n`);
     process.stderr.write(`[CONFIG] LLM Judge: ${config.noLlm ? 'disabled' : config.judgeUrl}\n`);
+    process.stderr.write(`[CONFIG] Parallel jobs: ${config.jobs}\n`);
 
     // Load test cases
     const loader = new TestLoader(testcasesDir);
-    const allTestCases = await loader.loadAll();
+    const allTestCases = await exitOnValidationErrors(loader.loadAll());
 
     if (allTestCases.length === 0) {
       process.stderr.write('[ERROR] No test cases found\n');
       process.exit(1);
     }
+    exitOnDependencyErrors(loader, allTestCases);
 
     // Apply user filters
-    let filteredTestCases = allTestCases;
-
-    if (config.suite) {
-      filteredTestCases = filteredTestCases.filter((tc) => tc.suite === config.suite);
-    }
-
-    if (config.testId) {
-      filteredTestCases = filteredTestCases.filter((tc) => tc.id === config.testId);
-    }
-
-    if (config.tag) {
-      filteredTestCases = filteredTestCases.filter((tc) => tc.tags?.includes(config.tag!));
-    }
+    const filteredTestCases = filterTestCases(allTestCases, config);
 
     if (filteredTestCases.length === 0) {
       process.stderr.write('[ERROR] No matching test cases found\n');
@@ -117,7 +351,18 @@ program
     }
 
     // Sort by dependencies
-    const testCases = loader.sortByDependencies(resolvedTestCases);
+    let testCases = loader.sortByDependencies(resolvedTestCases);
+    const suiteHooks = await exitOnValidationErrors(loader.loadSuiteHooks());
+
+    if (config.shard) {
+      const durations = await loadPastDurations(options.durationsFrom || resultsDir);
+      const total = testCases.length;
+      testCases = selectShard(testCases, config.shard, durations);
+      process.stderr.write(
+        `[INFO] Shard ${config.shard.index}/${config.shard.total}: ${testCases.length} of ${total} test(s)` +
+          ` (${durations.size > 0 ? `balanced by ${durations.size} past duration(s)` : 'no past durations'})\n`
+      );
+    }
 
     process.stderr.write(`[INFO] Found ${testCases.length} test(s) to run\n`);
 
@@ -127,7 +372,22 @@ program
       for (const tc of testCases) {
         process.stderr.write(`  - ${tc.id}: ${tc.name} (${tc.suite})\n`);
         for (const step of tc.steps) {
-          process.stderr.write(`      Step: ${step.name}\n`);
+          process.stderr.write(`      Step: ${step.name}${step.background ? ' (background)' : ''}\n`);
+        }
+        for (const step of tc.teardown ?? []) {
+          process.stderr.write(`      Teardown: ${step.name}\n`);
+        }
+        if (tc.exports?.length) {
+          process.stderr.write(`      Exports: ${tc.exports.join(', ')}\n`);
+        }
+      }
+      for (const hooks of suiteHooks.values()) {
+        if (!testCases.some((tc) => tc.suite === hooks.suite)) continue;
+        for (const step of hooks.beforeAll) {
+          process.stderr.write(`  [${hooks.suite}] beforeAll: ${step.name}\n`);
+        }
+        for (const step of hooks.afterAll) {
+          process.stderr.write(`  [${hooks.suite}] afterAll: ${step.name}\n`);
         }
       }
       process.exit(0);
@@ -135,40 +395,139 @@ program
 
     // Execute tests
     const executor = new TestExecutor(config);
-    const results = await executor.executeAll(testCases);
 
-    // Run judges
-    process.stderr.write('\n[JUDGE] Running simple judge...\n');
+    // The first signal stops the run gracefully; a second one exits at once
+    const onSignal = (signal: NodeJS.Signals) => {
+      if (executor.interruptReason) {
+        process.stderr.write(`\n[INTERRUPT] Received ${signal} again, exiting without reports\n`);
+        process.exit(signal === 'SIGINT' ? 130 : 143);
+      }
+      executor.interrupt(`Received ${signal}`);
+    };
+    process.on('SIGINT', onSignal);
+    process.on('SIGTERM', onSignal);
+
+    // Judges run after every execution (reruns and watch runs included)
     const simpleJudge = new SimpleJudge();
-    const simpleJudgments = simpleJudge.judgeAll(results);
-
-    let llmJudgments = simpleJudgments.map((j) => ({
-      ...j,
-      reason: config.noLlm ? 'LLM judge disabled' : j.reason,
-    }));
-
-    if (!config.noLlm) {
-      process.stderr.write('[JUDGE] Running LLM judge...\n');
-      const llmJudge = new LLMJudge(config.judgeUrl, config.judgeModel);
-
-      const available = await llmJudge.isAvailable();
-      if (available) {
-        llmJudgments = await llmJudge.judgeResults(results);
-        await llmJudge.unloadModel();
-      } else {
-        process.stderr.write('[WARN] LLM judge not available, using simple judge results\n');
+    const llmJudge = new LLMJudge(config.judgeUrl, config.judgeModel);
+    const judge: Judge = async (results) => {
+      process.stderr.write('\n[JUDGE] Running simple judge...\n');
+      const simpleJudgments = simpleJudge.judgeAll(results);
+
+      let llmJudgments = simpleJudgments.map((j) => ({
+        ...j,
+        reason: config.noLlm ? 'LLM judge disabled' : j.reason,
+      }));
+
+      if (!config.noLlm) {
+        process.stderr.write('[JUDGE] Running LLM judge...\n');
+
+        const available = await llmJudge.isAvailable();
+        if (available) {
+          llmJudgments = await llmJudge.judgeResults(results);
+          await llmJudge.unloadModel();
+        } else {
+          process.stderr.write('[WARN] LLM judge not available, using simple judge results\n');
+        }
       }
+
+      return { simpleJudgments, llmJudgments };
+    };
+
+    if (options.watch) {
+      await watchTests(testCases, allTestCases, suiteHooks, {
+        config,
+        loader,
+        executor,
+        judge,
+        testcasesDir,
+        sources: options.watchSource ?? [],
+        suiteName,
+      });
+      process.exit(0);
     }
 
-    // Generate and output reports
+    const results = await executor.executeAll(testCases, suiteHooks);
+    const { simpleJudgments, llmJudgments } = await judge(results);
     const jsonReporter = new JsonReporter(outputDir);
+
+    // Rerun failed tests; each test keeps the reports of its earlier attempts
+    const previousAttempts = new Map<string, TestReport[]>();
+    for (let attempt = 2; attempt <= config.rerunFailed + 1; attempt++) {
+      if (executor.interruptReason) break;
+
+      const failed = results.filter(
+        (r, i) => !r.skipReason && !(simpleJudgments[i].pass && llmJudgments[i].pass)
+      );
+      if (failed.length === 0) break;
+
+      // Tests skipped because something they depend on failed get another
+      // chance too, or they would never run once the failure is retried
+      const retried = new Set(failed.map((r) => r.testCase.id));
+      const blocked: TestResult[] = [];
+      for (let grew = true; grew; ) {
+        grew = false;
+        for (const r of results) {
+          if (r.skipReason && !retried.has(r.testCase.id) && r.testCase.dependencies.some((id) => retried.has(id))) {
+            retried.add(r.testCase.id);
+            blocked.push(r);
+            grew = true;
+          }
+        }
+      }
+
+      const rerunIds = new Set(
+        loader
+          .resolveDependencies([...failed, ...blocked].map((r) => r.testCase), testCases)
+          .tests.map((tc) => tc.id)
+      );
+      const rerunTestCases = testCases.filter((tc) => rerunIds.has(tc.id));
+      process.stderr.write(
+        `\n[RERUN] Attempt ${attempt}: rerunning ${failed.length} failed test(s)` +
+          (blocked.length > 0 ? `, ${blocked.length} test(s) skipped by them` : '') +
+          ` with ${rerunTestCases.length - retried.size} dependency test(s)\n`
+      );
+
+      const rerunResults = await executor.executeAll(rerunTestCases, suiteHooks, attempt);
+      const rerunJudgments = await judge(rerunResults);
+      const { reports: currentReports } = jsonReporter.generateReports(
+        results,
+        simpleJudgments,
+        llmJudgments,
+        startTime,
+        suiteName
+      );
+
+      rerunResults.forEach((result, j) => {
+        // A rerun skipped for a failing dependency says nothing about the test,
+        // unless the test had not run at all before
+        const i = results.findIndex((r) => r.testCase.id === result.testCase.id);
+        if (result.skipReason && !results[i].skipReason) return;
+        previousAttempts.set(result.testCase.id, [
+          ...(previousAttempts.get(result.testCase.id) ?? []),
+          currentReports[i],
+        ]);
+        results[i] = result;
+        simpleJudgments[i] = rerunJudgments.simpleJudgments[j];
+        llmJudgments[i] = rerunJudgments.llmJudgments[j];
+      });
+    }
+
+    // Generate and output reports
     const { summary, reports } = jsonReporter.generateReports(
       results,
       simpleJudgments,
       llmJudgments,
       startTime,
-      suiteName
+      suiteName,
+      previousAttempts
     );
+    summary.shard = config.shard;
+    if (executor.interruptReason) {
+      summary.interrupted = true;
+      summary.interruptReason = executor.interruptReason;
+      summary.notRun = results.filter((r) => r.notRun).map((r) => r.testCase.id);
+    }
 
     jsonReporter.writeReports(summary, reports);
 
@@ -179,7 +538,105 @@ program
       jsonReporter.outputSummary(summary, reports);
     }
 
-    process.exit(summary.failed > 0 ? 1 : 0);
+    process.exit(summary.failed > 0 || summary.interrupted ? 1 : 0);
+  });
+
+/**
+ * Merge command - combine the results directories of sharded runs
+ */
+program
+  .command('merge')
+  .description('Merge results directories from sharded runs into one summary')
+  .argument('<dirs...>', 'Results directories to merge')
+  .requiredOption('-o, --output-dir <dir>', 'Directory for the merged results')
+  .option('-f, --format <format>', 'Output format (console, json)', 'console')
+  .action((dirs: string[], options) => {
+    const missing = dirs.filter((dir) => !existsSync(path.join(dir, 'summary.json')));
+    if (missing.length > 0) {
+      process.stderr.write(`[ERROR] No summary.json in: ${missing.join(', ')}\n`);
+      process.exit(1);
+    }
+
+    const jsonReporter = new JsonReporter(options.outputDir);
+    const { summary, reports } = jsonReporter.mergeRuns(dirs);
+    jsonReporter.writeReports(summary, reports);
+
+    if (options.format === 'json') {
+      jsonReporter.outputSummary(summary, reports);
+    } else {
+      new ConsoleReporter().report(summary, reports);
+    }
+
+    process.exit(summary.failed > 0 || summary.interrupted ? 1 : 0);
+  });
+
+/**
+ * Validate command - check test case YAML without running anything
+ */
+program
+  .command('validate')
+  .description('Check test case YAML files against the schema and report every problem')
+  .argument('[files...]', 'YAML files to check (default: everything in testcases/)')
+  .option('--strict', 'Fail on warnings (such as unknown fields) too', false)
+  .action(async (files: string[], options) => {
+    const testsDir = path.dirname(new URL(import.meta.url).pathname);
+    const testcasesDir = path.join(testsDir, '..', 'testcases');
+
+    const validator = new TestValidator(testcasesDir);
+    const { files: checked, issues } =
+      files.length > 0 ? { files, issues: validator.validateFiles(files) } : await validator.validateAll();
+
+    for (const issue of issues) {
+      console.log(formatIssue(issue));
+    }
+
+    const errors = issues.filter((issue) => issue.severity === 'error').length;
+    const warnings = issues.length - errors;
+    if (issues.length === 0) {
+      console.log(chalk.green(`${checked.length} file(s) valid`));
+    } else {
+      console.log(`\n${checked.length} file(s) checked: ${errors} error(s), ${warnings} warning(s)`);
+    }
+
+    process.exit(errors > 0 || (options.strict && warnings > 0) ? 1 : 0);
+  });
+
+/**
+ * Graph command - print the dependency graph
+ */
+program
+  .command('graph')
+  .description('Print the test dependency graph as Graphviz DOT or Mermaid')
+  .option('-f, --format <format>', 'Output format (dot, mermaid)', 'dot')
+  .option('-s, --suite <suite>', 'Only tests from this suite, with their dependencies')
+  .option('-i, --id <id>', 'Only the test with this ID, with its dependencies')
+  .option('-t, --tag <tag>', 'Only tests with this tag, with their dependencies')
+  .action(async (options) => {
+    if (options.format !== 'dot' && options.format !== 'mermaid') {
+      process.stderr.write(`[ERROR] Invalid --format value: ${options.format} (expected dot or mermaid)\n`);
+      process.exit(1);
+    }
+
+    const testsDir = path.dirname(new URL(import.meta.url).pathname);
+    const testcasesDir = path.join(testsDir, '..', 'testcases');
+
+    const loader = new TestLoader(testcasesDir);
+    const allTestCases = await exitOnValidationErrors(loader.loadAll());
+    exitOnDependencyErrors(loader, allTestCases);
+
+    const selected = filterTestCases(allTestCases, {
+      suite: options.suite,
+      testId: options.id,
+      tag: options.tag,
+    });
+    if (selected.length === 0) {
+      process.stderr.write('[ERROR] No matching test cases found\n');
+      process.exit(1);
+    }
+
+    const { tests, autoIncluded } = loader.resolveDependencies(selected, allTestCases);
+    const groups = loader.groupBySuite(loader.sortByDependencies(tests));
+    console.log(options.format === 'mermaid' ? renderMermaid(groups, autoIncluded) : renderDot(groups, autoIncluded));
   });
 
 /**
@@ -195,7 +652,8 @@ program
     const testcasesDir = path.join(testsDir, '..', 'testcases');
 
     const loader = new TestLoader(testcasesDir);
-    let testCases = await loader.loadAll();
+    let testCases = await exitOnValidationErrors(loader.loadAll());
+    exitOnDependencyErrors(loader, testCases);
 
     if (options.suite) {
       testCases = testCases.filter((tc) => tc.suite === options.suite);
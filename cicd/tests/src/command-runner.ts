@@ -0,0 +1,257 @@
+/**
+ * Command runner - executes shell commands in their own process group so
+ * a timeout can stop the whole process tree, not just the shell.
+ *
+ * On timeout the group receives SIGTERM, then SIGKILL after a grace period.
+ * Output is collected up to a byte limit per stream; anything past the
+ * limit is dropped and the output is marked as truncated.
+ *
+ * Background processes (`background: true` steps) are started the same way
+ * but keep running until they are stopped.
+ */
+
+import { spawn, ChildProcess } from 'child_process';
+import { CONFIG } from './config.js';
+
+export interface CommandOptions {
+  /** Command line passed to `<shell> -c` */
+  command: string;
+  /** Working directory */
+  cwd: string;
+  /** Shell binary */
+  shell: string;
+  /** Full process environment */
+  env: NodeJS.ProcessEnv;
+  /** Timeout in ms */
+  timeout: number;
+  /** Maximum bytes kept per stream */
+  maxOutput: number;
+  /** Called with every chunk of output as it arrives, until the limit is reached */
+  onOutput?: (chunk: string, stream: 'stdout' | 'stderr') => void;
+  /** Called once the process has been spawned */
+  onSpawn?: (child: ChildProcess) => void;
+}
+
+export interface CommandResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+  timedOut: boolean;
+  truncated: boolean;
+}
+
+/**
+ * Collects stream output up to a byte limit.
+ */
+class OutputBuffer {
+  private chunks: string[] = [];
+  private size = 0;
+  truncated = false;
+
+  constructor(private limit: number) {}
+
+  append(chunk: string): void {
+    if (this.truncated) return;
+    const bytes = Buffer.byteLength(chunk);
+    if (this.size + bytes <= this.limit) {
+      this.chunks.push(chunk);
+      this.size += bytes;
+      return;
+    }
+    const remaining = Buffer.from(chunk).subarray(0, this.limit - this.size);
+    this.chunks.push(remaining.toString());
+    this.size = this.limit;
+    this.truncated = true;
+  }
+
+  toString(): string {
+    const text = this.chunks.join('');
+    return this.truncated
+      ? `${text}\n[TRUNCATED] Output exceeded ${this.limit} bytes`
+      : text;
+  }
+}
+
+/**
+ * Send a signal to every process in the child's process group.
+ */
+export function killProcessGroup(child: ChildProcess, signal: NodeJS.Signals): void {
+  if (child.pid === undefined) return;
+  try {
+    process.kill(-child.pid, signal);
+  } catch {
+    // Group already gone; fall back to the direct child
+    try {
+      child.kill(signal);
+    } catch {
+      // Ignore
+    }
+  }
+}
+
+/**
+ * Stop a process group: SIGTERM, then SIGKILL if it is still alive after
+ * the grace period. Resolves once the child has exited.
+ */
+export function terminateProcessGroup(
+  child: ChildProcess,
+  gracePeriod: number = CONFIG.killGracePeriod
+): Promise<void> {
+  return new Promise((resolve) => {
+    if (child.exitCode !== null || child.signalCode !== null) {
+      // Shell is gone but its children may not be
+      killProcessGroup(child, 'SIGKILL');
+      resolve();
+      return;
+    }
+
+    const timer = setTimeout(() => killProcessGroup(child, 'SIGKILL'), gracePeriod);
+    child.once('exit', () => {
+      clearTimeout(timer);
+      // Make sure nothing in the group outlives the shell
+      killProcessGroup(child, 'SIGKILL');
+      resolve();
+    });
+    killProcessGroup(child, 'SIGTERM');
+  });
+}
+
+/**
+ * A long-running command started in the background. Output keeps being
+ * collected until the process exits or is stopped.
+ */
+export class BackgroundProcess {
+  readonly child: ChildProcess;
+  /** Exit code once the process has exited, null while it runs */
+  exitCode: number | null = null;
+  /** Resolves with the exit code when the process exits */
+  readonly exited: Promise<number>;
+  private stdout: OutputBuffer;
+  private stderr: OutputBuffer;
+  private spawnError: Error | null = null;
+
+  constructor(options: Omit<CommandOptions, 'timeout'>) {
+    this.stdout = new OutputBuffer(options.maxOutput);
+    this.stderr = new OutputBuffer(options.maxOutput);
+
+    this.child = spawn(options.shell, ['-c', options.command], {
+      cwd: options.cwd,
+      env: options.env,
+      detached: true,
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+
+    options.onSpawn?.(this.child);
+
+    this.child.stdout?.setEncoding('utf-8');
+    this.child.stderr?.setEncoding('utf-8');
+
+    this.child.stdout?.on('data', (chunk: string) => {
+      if (this.stdout.truncated) return;
+      this.stdout.append(chunk);
+      options.onOutput?.(chunk, 'stdout');
+    });
+
+    this.child.stderr?.on('data', (chunk: string) => {
+      if (this.stderr.truncated) return;
+      this.stderr.append(chunk);
+      options.onOutput?.(chunk, 'stderr');
+    });
+
+    this.child.on('error', (err) => {
+      this.spawnError = err;
+    });
+
+    this.exited = new Promise((resolve) => {
+      this.child.on('close', (code) => {
+        this.exitCode = this.spawnError ? 1 : (code ?? 1);
+        resolve(this.exitCode);
+      });
+    });
+  }
+
+  get running(): boolean {
+    return this.exitCode === null;
+  }
+
+  /**
+   * Output collected so far.
+   */
+  output(): { stdout: string; stderr: string } {
+    return {
+      stdout: this.stdout.toString(),
+      stderr: this.stderr.toString() || (this.spawnError?.message ?? ''),
+    };
+  }
+
+  /**
+   * Stop the process group (SIGTERM, then SIGKILL) and wait for the
+   * process to exit. Children left behind by an exited shell are killed too.
+   */
+  async stop(): Promise<void> {
+    await terminateProcessGroup(this.child);
+    await this.exited;
+  }
+}
+
+/**
+ * Run a command to completion.
+ */
+export function runCommand(options: CommandOptions): Promise<CommandResult> {
+  return new Promise((resolve) => {
+    const stdout = new OutputBuffer(options.maxOutput);
+    const stderr = new OutputBuffer(options.maxOutput);
+    let timedOut = false;
+    let spawnError: Error | null = null;
+
+    const child = spawn(options.shell, ['-c', options.command], {
+      cwd: options.cwd,
+      env: options.env,
+      detached: true,
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+
+    options.onSpawn?.(child);
+
+    child.stdout?.setEncoding('utf-8');
+    child.stderr?.setEncoding('utf-8');
+
+    child.stdout?.on('data', (chunk: string) => {
+      if (stdout.truncated) return;
+      stdout.append(chunk);
+      options.onOutput?.(chunk, 'stdout');
+    });
+
+    child.stderr?.on('data', (chunk: string) => {
+      if (stderr.truncated) return;
+      stderr.append(chunk);
+      options.onOutput?.(chunk, 'stderr');
+    });
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      terminateProcessGroup(child);
+    }, options.timeout);
+
+    child.on('error', (err) => {
+      spawnError = err;
+    });
+
+    child.on('close', (code) => {
+      clearTimeout(timer);
+
+      let stderrText = stderr.toString();
+      if (spawnError) {
+        stderrText = stderrText || spawnError.message;
+      }
+
+      resolve({
+        stdout: stdout.toString(),
+        stderr: stderrText,
+        exitCode: spawnError ? 1 : (code ?? 1),
+        timedOut,
+        truncated: stdout.truncated || stderr.truncated,
+      });
+    });
+  });
+}
@@ -0,0 +1,37 @@
+/**
+ * `when` / `skipIf` conditions for steps and test cases.
+ *
+ * A step or test runs only if all of its `when` conditions hold and none of
+ * its `skipIf` conditions does. Conditions are checked right before the
+ * step or test would start, so they can use variables captured earlier.
+ */
+
+import { Condition } from './types.js';
+
+export const CONDITION_KINDS = ['command', 'env', 'var'] as const;
+
+/** Comparisons for `var` conditions; without one the variable must be non-empty */
+export const CONDITION_OPERATORS = ['equals', 'notEquals', 'matches'] as const;
+
+/**
+ * Whether a `var` condition holds for the variable's value.
+ */
+export function checkVariable(condition: Condition, value: string | undefined): boolean {
+  if (condition.equals !== undefined) return value === condition.equals;
+  if (condition.notEquals !== undefined) return value !== undefined && value !== condition.notEquals;
+  if (condition.matches !== undefined) return value !== undefined && new RegExp(condition.matches).test(value);
+  return !!value;
+}
+
+/**
+ * Short description of a condition for skip reasons.
+ */
+export function describeCondition(condition: Condition): string {
+  if (condition.command !== undefined) return `\`${condition.command}\``;
+  if (condition.env !== undefined) return `$${condition.env}`;
+  const name = `{{${condition.var}}}`;
+  if (condition.equals !== undefined) return `${name} == "${condition.equals}"`;
+  if (condition.notEquals !== undefined) return `${name} != "${condition.notEquals}"`;
+  if (condition.matches !== undefined) return `${name} =~ /${condition.matches}/`;
+  return name;
+}
@@ -24,6 +24,15 @@ export const CONFIG = {
   // Default timeouts (in milliseconds)
   defaultTimeout: 60000,
   defaultStepTimeout: 30000,
+
+  // Grace period between SIGTERM and SIGKILL when stopping a step (in milliseconds)
+  killGracePeriod: 5000,
+
+  // Delay between attempts of a step with retries (in milliseconds)
+  defaultRetryInterval: 1000,
+
+  // Stop a test at its first failing step unless the test sets failFast: false
+  failFast: true,
   
   // LLM Judge defaults
   llm: {
@@ -38,15 +47,58 @@ export const CONFIG = {
   // Log collection settings
   logs: {
     cleanupAge: 24 * 60 * 60 * 1000, // 24 hours
-    maxBuffer: 50 * 1024 * 1024, // 50MB
+    maxBuffer: 50 * 1024 * 1024, // 50MB per stream; step output beyond this is truncated
+  },
+
+  // Resource sampling (in milliseconds)
+  resources: {
+    sampleInterval: 500, // /proc samples of each step's processes
+    dockerStatsInterval: 5000, // docker stats samples while the log collector runs
+  },
+
+  // Snapshot steps (snapshot: true)
+  snapshots: {
+    dir: '__snapshots__', // golden files live here, next to the test's YAML
+    // Applied to output before comparing; paths of the project, the test's
+    // temp directory and the home directory are replaced as well
+    normalizers: [
+      {
+        pattern: '\\d{4}-\\d{2}-\\d{2}[T ]\\d{2}:\\d{2}:\\d{2}(\\.\\d+)?(Z|[+-]\\d{2}:?\\d{2})?',
+        replace: '<TIMESTAMP>',
+      },
+      { pattern: '\\b\\d+(\\.\\d+)?\\s?(ms|s|sec|seconds|min)\\b', replace: '<DURATION>' },
+      {
+        pattern: '\\b[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}\\b',
+        replace: '<UUID>',
+      },
+    ],
   },
 
-  // MCP client settings (for projects using mcp-client.ts)
+  // Watch mode (in milliseconds)
+  watch: {
+    pollInterval: 1000, // how often watched files are checked for changes
+  },
+
+  // MCP settings (for mcp: steps and mcp-client.ts)
   mcp: {
     serverCommand: 'node dist/mcpServer.js', // Override via MCP_SERVER_COMMAND env var
   },
 };
 
+/**
+ * Names of environment and captured variables whose values are secret.
+ * Their values are masked in progress output, logs, reports and LLM
+ * prompts. Tests can mark more variables with `secrets:`.
+ */
+export const SECRET_PATTERNS: RegExp[] = [
+  /TOKEN/i,
+  /SECRET/i,
+  /PASSWORD/i,
+  /API_?KEY/i,
+  /PRIVATE_?KEY/i,
+  /CREDENTIAL/i,
+];
+
 /**
  * Error patterns to detect in logs.
  * The Simple Judge will fail tests if any of these patterns are found.
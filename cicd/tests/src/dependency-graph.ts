@@ -0,0 +1,131 @@
+/**
+ * Test dependency graph - checks and rendering.
+ *
+ * Every dependency must name a loaded test and dependencies must not form a
+ * cycle; both are hard errors found before a run starts. `graph` renders the
+ * tests as Graphviz DOT or a Mermaid flowchart, with one cluster per suite,
+ * priorities in the node labels and arrows from each dependency to the
+ * tests that need it.
+ */
+
+import { TestCase } from './types.js';
+
+type GraphNode = Pick<TestCase, 'id' | 'dependencies'>;
+
+/**
+ * Dependencies that name no test in the set, in test order.
+ */
+export function findMissingDependencies(testCases: GraphNode[]): { testId: string; dependency: string }[] {
+  const ids = new Set(testCases.map((tc) => tc.id));
+  return testCases.flatMap((tc) =>
+    tc.dependencies.filter((depId) => !ids.has(depId)).map((dependency) => ({ testId: tc.id, dependency }))
+  );
+}
+
+/**
+ * Dependency cycles, each listed from its first test back to that test
+ * (`[A, B, A]` means A depends on B and B on A). Every test that is part of
+ * a cycle appears in at least one of them.
+ */
+export function findCycles(testCases: GraphNode[]): string[][] {
+  const byId = new Map(testCases.map((tc) => [tc.id, tc]));
+  const done = new Set<string>();
+  const path: string[] = [];
+  const onPath = new Set<string>();
+  const cycles: string[][] = [];
+
+  const visit = (tc: GraphNode) => {
+    path.push(tc.id);
+    onPath.add(tc.id);
+    for (const depId of tc.dependencies) {
+      if (onPath.has(depId)) {
+        cycles.push([...path.slice(path.indexOf(depId)), depId]);
+        continue;
+      }
+      const dep = byId.get(depId);
+      if (dep && !done.has(depId)) visit(dep);
+    }
+    path.pop();
+    onPath.delete(tc.id);
+    done.add(tc.id);
+  };
+
+  for (const tc of testCases) {
+    if (!done.has(tc.id)) visit(tc);
+  }
+  return cycles;
+}
+
+function dotString(text: string): string {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+}
+
+function mermaidString(text: string): string {
+  return `"${text.replace(/"/g, '#quot;')}"`;
+}
+
+/**
+ * Render suite groups as a Graphviz digraph. Tests in `dependencyOnly` were
+ * pulled in as dependencies of the selected tests and are drawn dashed.
+ */
+export function renderDot(groups: Map<string, TestCase[]>, dependencyOnly: string[] = []): string {
+  const extra = new Set(dependencyOnly);
+  const lines = ['digraph tests {', '  rankdir=LR;', '  node [shape=box];'];
+
+  for (const [suite, cases] of groups) {
+    lines.push('', `  subgraph ${dotString(`cluster_${suite}`)} {`, `    label=${dotString(suite)};`);
+    for (const tc of cases) {
+      const style = extra.has(tc.id) ? ', style=dashed' : '';
+      lines.push(
+        `    ${dotString(tc.id)} [label=${dotString(`${tc.id}\n${tc.name}\npriority ${tc.priority}`)}${style}];`
+      );
+    }
+    lines.push('  }');
+  }
+
+  const tests = [...groups.values()].flat();
+  const ids = new Set(tests.map((tc) => tc.id));
+  const edges = tests.flatMap((tc) =>
+    tc.dependencies
+      .filter((depId) => ids.has(depId))
+      .map((depId) => `  ${dotString(depId)} -> ${dotString(tc.id)};`)
+  );
+  if (edges.length > 0) {
+    lines.push('', ...edges);
+  }
+  lines.push('}');
+  return lines.join('\n');
+}
+
+/**
+ * Render suite groups as a Mermaid flowchart. Test IDs are mapped to plain
+ * node names since Mermaid IDs cannot contain characters such as `[`.
+ */
+export function renderMermaid(groups: Map<string, TestCase[]>, dependencyOnly: string[] = []): string {
+  const extra = new Set(dependencyOnly);
+  const nodes = new Map([...groups.values()].flat().map((tc, index) => [tc.id, `t${index}`]));
+  const lines = ['flowchart LR'];
+
+  [...groups].forEach(([suite, cases], index) => {
+    lines.push(`  subgraph suite${index}[${mermaidString(suite)}]`);
+    for (const tc of cases) {
+      const className = extra.has(tc.id) ? ':::dependency' : '';
+      lines.push(
+        `    ${nodes.get(tc.id)}[${mermaidString(`${tc.id}<br/>${tc.name}<br/>priority ${tc.priority}`)}]${className}`
+      );
+    }
+    lines.push('  end');
+  });
+
+  for (const tc of [...groups.values()].flat()) {
+    for (const depId of tc.dependencies) {
+      if (nodes.has(depId)) {
+        lines.push(`  ${nodes.get(depId)} --> ${nodes.get(tc.id)}`);
+      }
+    }
+  }
+  if (extra.size > 0) {
+    lines.push('  classDef dependency stroke-dasharray: 5 5');
+  }
+  return lines.join('\n');
+}
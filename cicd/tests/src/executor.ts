@@ -3,14 +3,44 @@
  * and pattern matching.
  */
 
-import { exec } from 'child_process';
-import { promisify } from 'util';
-import { TestCase, TestResult, StepResult, PatternMatch, RunConfig } from './types.js';
+import path from 'path';
+import { ChildProcess } from 'child_process';
+import { tmpdir, homedir } from 'os';
+import { appendFileSync, mkdtempSync, rmSync } from 'fs';
+import {
+  TestCase,
+  TestStep,
+  Condition,
+  SuiteHooks,
+  TestResult,
+  StepResult,
+  StepAttempt,
+  PatternMatch,
+  RunConfig,
+  HttpRequest,
+  HttpResponse,
+  McpToolCall,
+  CaptureSpec,
+  ExportedVariable,
+  ReadinessProbe,
+} from './types.js';
 import { LogCollector } from './log-collector.js';
+import { runCommand, terminateProcessGroup, BackgroundProcess } from './command-runner.js';
+import { waitForReady, describeProbe } from './readiness.js';
+import { ResourceSampler, formatBytes } from './resource-sampler.js';
+import { sendRequest } from './http-request.js';
+import { McpSession, formatToolResult } from './mcp-session.js';
+import { resolvePath } from './json-path.js';
+import { toCaptureSpec, extractCapture } from './captures.js';
+import { checkVariable, describeCondition } from './conditions.js';
+import { snapshotPath, normalizeOutput, compareSnapshot } from './snapshots.js';
+import { evaluateAssertions } from './assertions.js';
+import { collectArtifacts } from './artifacts.js';
+import { testFileName } from './matrix.js';
+import { SimpleJudge } from './judge/simple-judge.js';
+import { secretMasker } from './secrets.js';
 import { CONFIG } from './config.js';
 
-const execAsync = promisify(exec);
-
 /**
  * Strip ANSI escape codes from strings.
  */
@@ -21,154 +51,573 @@ function stripAnsi(str: string): string {
   );
 }
 
+/**
+ * Per-test execution state. Each running test owns its own context so that
+ * tests executing concurrently never share captured variables. Suite hooks
+ * get a context of their own, identified as `<suite>:<hook>`.
+ */
+interface TestContext {
+  id: string;
+  variables: Record<string, string>;
+  /** Step that captured each variable */
+  captureSteps?: Record<string, string>;
+  /** Variables exported by dependencies, keyed by test ID and by exportAs namespace */
+  imports?: Record<string, Record<string, ExportedVariable>>;
+  /** Imported variables that were substituted, keyed by `<testId>.<name>` */
+  usedImports?: Map<string, ExportedVariable>;
+  /** Variable names the test marks as secret */
+  secrets?: string[];
+  /** Fresh per-test temp directory ($TEST_TMPDIR), removed when the test ends */
+  tmpDir?: string;
+  /** YAML file of the test; snapshot golden files live next to it */
+  sourceFile?: string;
+  /** Processes started by background steps, stopped when the context ends */
+  background?: Array<{ name: string; process: BackgroundProcess }>;
+  /** MCP server session, opened by the first mcp step */
+  mcpSession?: McpSession;
+}
+
+/**
+ * Execution settings a list of steps inherits from its test case or suite.
+ */
+interface StepDefaults {
+  timeout: number;
+  env?: Record<string, string>;
+  cwd?: string;
+  shell?: string;
+}
+
+/**
+ * A step with variables substituted and defaults applied, ready to run.
+ * `command` holds the shell command, or a description for request/MCP steps.
+ */
+interface ResolvedStep {
+  name: string;
+  command: string;
+  request?: HttpRequest;
+  mcp?: McpToolCall;
+  background?: boolean;
+  ready?: ReadinessProbe;
+  timeout: number;
+  cwd: string;
+  shell: string;
+  env: NodeJS.ProcessEnv;
+  /** Whether an interrupt stops this step (false for teardown and afterAll) */
+  interruptible?: boolean;
+}
+
+const DEFAULT_SHELL = '/bin/bash';
+
+/**
+ * Short description of what a step runs, for progress output and reports.
+ */
+function describeStep(step: {
+  command?: string;
+  request?: HttpRequest;
+  mcp?: McpToolCall;
+}): string {
+  if (step.mcp) {
+    return `mcp:${step.mcp.tool} ${JSON.stringify(step.mcp.arguments ?? {})}`;
+  }
+  if (step.request) {
+    return `${(step.request.method ?? 'GET').toUpperCase()} ${step.request.url}`;
+  }
+  return step.command ?? '';
+}
+
 export class TestExecutor {
   private config: RunConfig;
   private logCollector: LogCollector | null = null;
   private totalTests: number = 0;
   private currentTest: number = 0;
-  private currentTestId: string | null = null;
-  private variables: Record<string, string> = {};
+  private dependencyJudge = new SimpleJudge();
+  private exportsByTest = new Map<
+    string,
+    { parentId?: string; exportAs?: string; variables: ExportedVariable[] }
+  >();
+  private suiteContexts = new Map<string, TestContext[]>();
+  /** Processes of the interruptible steps currently running */
+  private activeProcesses = new Set<ChildProcess>();
+  /** Set once the run has been interrupted */
+  interruptReason: string | null = null;
+  /** When the first executeAll started; --max-run-time covers reruns too */
+  private runStartedAt: number | null = null;
+  /** Attempt number of the current executeAll, for per-attempt output paths */
+  private attempt: number = 1;
 
   constructor(config: RunConfig) {
     this.config = config;
   }
 
-  private progress(msg: string): void {
+  /**
+   * Write a progress line. When tests run in parallel, lines belonging to a
+   * test are prefixed with its ID so interleaved output stays readable.
+   * Secret values are masked.
+   */
+  private progress(msg: string, ctx?: TestContext): void {
+    msg = secretMasker.mask(msg);
+    if (ctx && this.config.jobs > 1) {
+      const indent = msg.match(/^\s*/)![0];
+      msg = `${indent}[${ctx.id}] ${msg.substring(indent.length)}`;
+    }
     process.stderr.write(msg + '\n');
   }
 
-  private substituteVariables(command: string): string {
-    return command.replace(/\{\{(\w+)\}\}/g, (match, varName) => {
-      const value = this.variables[varName] ?? process.env[varName];
+  /**
+   * Stop the run early: the running steps are stopped, their remaining
+   * steps are not run, and tests that have not started are recorded as not
+   * run. Teardown and afterAll still run so the environment is cleaned up.
+   */
+  interrupt(reason: string): void {
+    if (this.interruptReason) return;
+    this.interruptReason = reason;
+    this.progress(`\n[INTERRUPT] ${reason}; stopping ${this.activeProcesses.size} running step(s)`);
+    for (const child of this.activeProcesses) {
+      terminateProcessGroup(child);
+    }
+  }
+
+  /**
+   * Replace {{name}} with a captured variable (or environment variable) and
+   * {{<testId|exportAs>.name}} with a variable exported by a dependency.
+   */
+  private substituteVariables(command: string, ctx: TestContext): string {
+    return command.replace(/\{\{(?:([\w-]+)\.)?(\w+)\}\}/g, (match, namespace, varName) => {
+      const value = namespace
+        ? this.resolveImport(namespace, varName, ctx)
+        : ctx.variables[varName] ?? process.env[varName];
       if (value === undefined) {
-        this.progress(`    [WARN] Variable {{${varName}}} not found`);
+        this.progress(`    [WARN] Variable ${match} not found`, ctx);
         return match;
       }
       return value;
     });
   }
 
+  private resolveImport(namespace: string, varName: string, ctx: TestContext): string | undefined {
+    const exported = ctx.imports?.[namespace]?.[varName];
+    if (!exported) return undefined;
+    ctx.usedImports?.set(`${exported.testId}.${exported.name}`, exported);
+    return exported.value;
+  }
+
+  /**
+   * Variables exported by a test's direct dependencies, addressable by the
+   * dependency's ID and by its exportAs namespace.
+   */
+  private collectImports(testCase: TestCase): Record<string, Record<string, ExportedVariable>> {
+    const imports: Record<string, Record<string, ExportedVariable>> = {};
+    for (const depId of testCase.dependencies) {
+      const dep = this.exportsByTest.get(depId);
+      if (!dep) continue;
+      const variables = Object.fromEntries(dep.variables.map((v) => [v.name, v]));
+      imports[depId] = variables;
+      if (dep.parentId) {
+        imports[dep.parentId] = { ...imports[dep.parentId], ...variables };
+      }
+      if (dep.exportAs) {
+        imports[dep.exportAs] = { ...imports[dep.exportAs], ...variables };
+      }
+    }
+    return imports;
+  }
+
   /**
-   * Resolve a dot-notation path with optional array find syntax.
-   * Supports: "field", "nested.field", "data[name=foo].id"
-   * Array find on field: arrayField[key=value] finds first element where element.key === value
-   * Array find on root: $[key=value].field finds in top-level array
+   * Record the variables a test exports once it has finished.
    */
-  private resolvePath(obj: any, fieldPath: string): any {
-    const segments = fieldPath.match(/[^.]+/g) || [];
-    let current = obj;
-
-    for (const segment of segments) {
-      if (current === undefined || current === null) return undefined;
-
-      // Top-level array find: $[key=value]
-      const rootArrayMatch = segment.match(/^\$\[(\w+)=(.+)\]$/);
-      if (rootArrayMatch) {
-        const [, matchKey, matchValue] = rootArrayMatch;
-        if (!Array.isArray(current)) return undefined;
-        current = current.find((item: any) => String(item[matchKey]) === matchValue);
+  private publishExports(testCase: TestCase, ctx: TestContext): ExportedVariable[] {
+    const exported: ExportedVariable[] = [];
+    for (const name of testCase.exports ?? []) {
+      const value = ctx.variables[name];
+      if (value === undefined) {
+        this.progress(`    [WARN] Exported variable ${name} was never captured`, ctx);
+        continue;
+      }
+      exported.push({ name, value, testId: testCase.id, step: ctx.captureSteps?.[name] ?? '' });
+    }
+    this.exportsByTest.set(testCase.id, {
+      parentId: testCase.parentId,
+      exportAs: testCase.exportAs,
+      variables: exported,
+    });
+    return secretMasker.maskDeep(exported);
+  }
+
+  /**
+   * Store the step's captures in the context. Captures are attempted
+   * whatever the exit code; a missing `required` capture fails the step.
+   */
+  private captureVariables(
+    step: TestCase['steps'][0],
+    result: StepResult,
+    ctx: TestContext
+  ): void {
+    if (!step.capture) return;
+
+    for (const [varName, capture] of Object.entries(step.capture)) {
+      const spec = toCaptureSpec(capture);
+      const resolved: CaptureSpec = {
+        ...spec,
+        path: spec.path && this.substituteVariables(spec.path, ctx),
+        regex: spec.regex && this.substituteVariables(spec.regex, ctx),
+      };
+
+      const { value, error } = extractCapture(resolved, varName, result);
+      if (value !== undefined) {
+        ctx.variables[varName] = value;
+        if (ctx.captureSteps) ctx.captureSteps[varName] = step.name;
+        if (secretMasker.isSecretName(varName, ctx.secrets)) secretMasker.register(value);
+        this.progress(`    Captured: ${varName} = ${value.substring(0, 60)}`, ctx);
         continue;
       }
 
-      // Named array find: fieldName[key=value]
-      const arrayMatch = segment.match(/^(\w+)\[(\w+)=(.+)\]$/);
-      if (arrayMatch) {
-        const [, arrayField, matchKey, matchValue] = arrayMatch;
-        const arr = current[arrayField];
-        if (!Array.isArray(arr)) return undefined;
-        current = arr.find((item: any) => String(item[matchKey]) === matchValue);
+      if (spec.required) {
+        result.captureErrors = [...(result.captureErrors ?? []), `${varName}: ${error}`];
+        result.status = 'failed';
+        this.progress(`    [FAIL] Required capture ${varName} missing: ${error}`, ctx);
       } else {
-        current = current[segment];
+        this.progress(`    [WARN] Capture ${varName} skipped: ${error}`, ctx);
       }
     }
+  }
 
-    return current;
+  /**
+   * Substitute {{variables}} in every string inside a value (objects and
+   * arrays are copied, other values returned unchanged).
+   */
+  private substituteDeep(value: unknown, ctx: TestContext): unknown {
+    if (typeof value === 'string') {
+      return this.substituteVariables(value, ctx);
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.substituteDeep(item, ctx));
+    }
+    if (typeof value === 'object' && value !== null) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, this.substituteDeep(item, ctx)])
+      );
+    }
+    return value;
   }
 
-  private captureVariables(step: TestCase['steps'][0], result: StepResult): void {
-    if (!step.capture || result.exitCode !== 0) return;
+  /**
+   * Apply test/suite defaults to a step and substitute {{variables}} in its
+   * command, env values, cwd and shell. Step settings override defaults;
+   * env maps are merged on top of the parent process environment.
+   */
+  private resolveStep(step: TestStep, defaults: StepDefaults, ctx: TestContext): ResolvedStep {
+    const env: NodeJS.ProcessEnv = { ...process.env };
+    for (const [key, value] of Object.entries({ ...defaults.env, ...step.env })) {
+      env[key] = this.substituteVariables(value, ctx);
+    }
+    env.TEST_ID = ctx.id;
+    if (ctx.tmpDir) {
+      env.TEST_TMPDIR = ctx.tmpDir;
+    }
+    secretMasker.registerEnv(env, ctx.secrets);
 
-    try {
-      let parsed = JSON.parse(result.stdout);
+    const cwd = step.cwd ?? defaults.cwd;
+    const shell = step.shell ?? defaults.shell;
+    const request = step.request
+      ? (this.substituteDeep(step.request, ctx) as HttpRequest)
+      : undefined;
+    const mcp = step.mcp ? (this.substituteDeep(step.mcp, ctx) as McpToolCall) : undefined;
 
-      // Handle MCP double-encoded responses: content[0].text wrapping
-      const innerText = parsed?.content?.[0]?.text;
-      if (innerText) {
-        try { parsed = JSON.parse(innerText); } catch { /* use outer */ }
+    return {
+      name: step.name,
+      command:
+        request || mcp
+          ? describeStep({ request, mcp })
+          : this.substituteVariables(step.command ?? '', ctx),
+      request,
+      mcp,
+      background: step.background,
+      ready: step.ready && (this.substituteDeep(step.ready, ctx) as ReadinessProbe),
+      timeout: request?.timeout || step.timeout || defaults.timeout,
+      cwd: cwd
+        ? path.resolve(this.config.workingDir, this.substituteVariables(cwd, ctx))
+        : this.config.workingDir,
+      shell: shell ? this.substituteVariables(shell, ctx) : DEFAULT_SHELL,
+      env,
+    };
+  }
+
+  /**
+   * Build an output handler that echoes a step's output line by line,
+   * prefixed with the test and step name (used in --verbose mode).
+   */
+  private createLiveOutput(ctx: TestContext, stepName: string) {
+    const partial = { stdout: '', stderr: '' };
+    const prefix = `      [${ctx.id}] [${stepName}]`;
+
+    const emit = (line: string, stream: 'stdout' | 'stderr') => {
+      const marker = stream === 'stderr' ? ' (stderr)' : '';
+      process.stderr.write(`${prefix}${marker} ${secretMasker.mask(stripAnsi(line))}\n`);
+    };
+
+    return {
+      write: (chunk: string, stream: 'stdout' | 'stderr') => {
+        const lines = (partial[stream] + chunk).split('\n');
+        partial[stream] = lines.pop() ?? '';
+        for (const line of lines) emit(line, stream);
+      },
+      flush: () => {
+        for (const stream of ['stdout', 'stderr'] as const) {
+          if (partial[stream]) emit(partial[stream], stream);
+          partial[stream] = '';
+        }
+      },
+    };
+  }
+
+  /**
+   * Check a request step's response against its expected status and JSON
+   * fields. Returns one message per failed expectation.
+   */
+  private checkResponse(request: HttpRequest, response: HttpResponse): string[] {
+    const failures: string[] = [];
+
+    if (request.expectStatus !== undefined) {
+      const accepted = Array.isArray(request.expectStatus)
+        ? request.expectStatus
+        : [request.expectStatus];
+      if (!accepted.includes(response.status)) {
+        failures.push(`Expected status ${accepted.join(' or ')}, got ${response.status}`);
       }
+    } else if (response.status >= 400) {
+      failures.push(`Request failed with status ${response.status} ${response.statusText}`);
+    }
 
-      for (const [varName, fieldPath] of Object.entries(step.capture)) {
-        const resolvedPath = this.substituteVariables(fieldPath);
-        const value = this.resolvePath(parsed, resolvedPath);
-        if (value !== undefined) {
-          this.variables[varName] = String(value);
-          this.progress(`    Captured: ${varName} = ${String(value).substring(0, 60)}`);
-        } else {
-          this.progress(`    [WARN] Capture field '${fieldPath}' not found in response`);
+    if (request.expectJson) {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(response.body);
+      } catch {
+        failures.push('Expected a JSON response body');
+        return failures;
+      }
+      for (const [fieldPath, expected] of Object.entries(request.expectJson)) {
+        const actual = resolvePath(parsed, fieldPath);
+        if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+          failures.push(
+            `JSON field '${fieldPath}': expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`
+          );
         }
       }
-    } catch (e) {
-      this.progress(`    [WARN] Failed to capture variables: ${e}`);
     }
+
+    return failures;
   }
 
-  private async executeStep(
-    step: { name: string; command: string; timeout?: number },
-    defaultTimeout: number
-  ): Promise<StepResult> {
+  /**
+   * Send a request step's HTTP request. The response body becomes stdout so
+   * patterns and captures work on it; failed expectations go to stderr and
+   * set a non-zero exit code.
+   */
+  private async executeRequest(step: ResolvedStep, ctx: TestContext): Promise<StepResult> {
+    const request = step.request!;
     const startTime = Date.now();
-    let stdout = '';
+    const { response, error, timedOut } = await sendRequest(request, step.timeout);
+    const duration = Date.now() - startTime;
+
     let stderr = '';
     let exitCode = 0;
-    let timedOut = false;
 
-    const timeout = step.timeout || defaultTimeout;
+    if (!response) {
+      stderr = timedOut
+        ? `[TIMEOUT] Request timed out after ${step.timeout / 1000}s\n\n${error}`
+        : error ?? 'Request failed';
+      exitCode = 1;
+    } else {
+      const failures = this.checkResponse(request, response);
+      if (failures.length > 0) {
+        stderr = failures.join('\n');
+        exitCode = 1;
+      }
+      if (this.config.verbose) {
+        this.progress(`      [${ctx.id}] [${step.name}] HTTP ${response.status} ${response.statusText}`);
+      }
+    }
 
-    const env = { ...process.env };
-    if (this.currentTestId) {
-      env.TEST_ID = this.currentTestId;
+    return {
+      name: step.name,
+      command: step.command,
+      status: exitCode === 0 ? 'passed' : 'failed',
+      stdout: response?.body ?? '',
+      stderr,
+      exitCode,
+      duration,
+      response,
+    };
+  }
+
+  /**
+   * Call an MCP tool through the test's shared session. The tool's content
+   * is unwrapped into stdout; `isError` results fail the step.
+   */
+  private async executeMcp(step: ResolvedStep, ctx: TestContext): Promise<StepResult> {
+    const call = step.mcp!;
+    const startTime = Date.now();
+    let stdout = '';
+    let stderr = '';
+    let exitCode = 0;
+
+    if (!ctx.mcpSession) {
+      ctx.mcpSession = new McpSession(step.cwd, step.env);
     }
 
     try {
-      const result = await execAsync(step.command, {
-        cwd: this.config.workingDir,
-        timeout,
-        maxBuffer: CONFIG.logs.maxBuffer,
-        shell: '/bin/bash',
-        env,
-      });
-      stdout = result.stdout;
-      stderr = result.stderr;
-    } catch (error: unknown) {
-      const err = error as {
-        stdout?: string;
-        stderr?: string;
-        message?: string;
-        code?: number;
-        killed?: boolean;
-      };
-      stdout = err.stdout || '';
-      stderr = err.stderr || err.message || 'Unknown error';
-      exitCode = err.code || 1;
-      timedOut = err.killed === true;
+      const result = await ctx.mcpSession.callTool(call.tool, call.arguments ?? {}, step.timeout);
+      const output = formatToolResult(result);
+      if (result.isError) {
+        stderr = output;
+        exitCode = 1;
+      } else {
+        stdout = output;
+      }
+    } catch (error) {
+      stderr = error instanceof Error ? error.message : String(error);
+      exitCode = 1;
     }
 
+    return {
+      name: step.name,
+      command: step.command,
+      status: exitCode === 0 ? 'passed' : 'failed',
+      stdout,
+      stderr,
+      exitCode,
+      duration: Date.now() - startTime,
+    };
+  }
+
+  /**
+   * Start a background step and wait for its readiness probe. The process
+   * keeps running after the step; it is stopped when its test ends (or its
+   * suite, for suite hooks). A step without a probe is ready once started.
+   */
+  private async executeBackground(step: ResolvedStep, ctx: TestContext): Promise<StepResult> {
+    const startTime = Date.now();
+    const live = this.config.verbose ? this.createLiveOutput(ctx, step.name) : null;
+
+    const proc = new BackgroundProcess({
+      command: step.command,
+      cwd: step.cwd,
+      shell: step.shell,
+      env: step.env,
+      maxOutput: CONFIG.logs.maxBuffer,
+      onOutput: live?.write,
+    });
+
+    let error: string | undefined;
+    if (step.ready) {
+      this.progress(`    Waiting for ${describeProbe(step.ready)}`, ctx);
+      if (step.interruptible) this.activeProcesses.add(proc.child);
+      error = await waitForReady(step.ready, proc, step.ready.timeout ?? step.timeout);
+      this.activeProcesses.delete(proc.child);
+    }
+
+    if (error) {
+      await proc.stop();
+      live?.flush();
+    } else {
+      ctx.background = [...(ctx.background ?? []), { name: step.name, process: proc }];
+    }
+
+    const { stdout, stderr } = proc.output();
+    const exitCode = error ? proc.exitCode || 1 : 0;
+    return {
+      name: step.name,
+      command: step.command,
+      status: exitCode === 0 ? 'passed' : 'failed',
+      stdout: stripAnsi(stdout),
+      stderr: error ? `[NOT READY] ${error}\n\n${stripAnsi(stderr)}` : stripAnsi(stderr),
+      exitCode,
+      duration: Date.now() - startTime,
+    };
+  }
+
+  /**
+   * Stop a context's background processes. Returns their full output as a
+   * log section for the test's logs.
+   */
+  private async stopBackground(ctx: TestContext): Promise<string> {
+    const background = ctx.background ?? [];
+    if (background.length === 0) return '';
+    ctx.background = [];
+    this.progress(`  Stopping ${background.length} background process(es)`, ctx);
+
+    const sections: string[] = [];
+    for (const { name, process: proc } of background) {
+      const state = proc.running ? 'stopped' : `exited with code ${proc.exitCode}`;
+      await proc.stop();
+      const { stdout, stderr } = proc.output();
+      sections.push(
+        `\n=== Background: ${name} (${state}) ===\nSTDOUT:\n${stripAnsi(stdout) || '(empty)'}\n\nSTDERR:\n${stripAnsi(stderr) || '(empty)'}\n`
+      );
+    }
+    return secretMasker.mask(sections.join(''));
+  }
+
+  private async executeStep(step: ResolvedStep, ctx: TestContext): Promise<StepResult> {
+    if (step.request) {
+      return this.executeRequest(step, ctx);
+    }
+    if (step.mcp) {
+      return this.executeMcp(step, ctx);
+    }
+    if (step.background) {
+      return this.executeBackground(step, ctx);
+    }
+
+    const startTime = Date.now();
+    const live = this.config.verbose ? this.createLiveOutput(ctx, step.name) : null;
+    let sampler: ResourceSampler | null = null;
+    let spawned: ChildProcess | null = null;
+
+    const result = await runCommand({
+      command: step.command,
+      cwd: step.cwd,
+      shell: step.shell,
+      env: step.env,
+      timeout: step.timeout,
+      maxOutput: CONFIG.logs.maxBuffer,
+      onOutput: live?.write,
+      onSpawn: (child) => {
+        spawned = child;
+        if (step.interruptible) this.activeProcesses.add(child);
+        if (child.pid !== undefined && ResourceSampler.isSupported()) {
+          sampler = new ResourceSampler(child.pid);
+          sampler.start();
+        }
+      },
+    });
+    live?.flush();
+    const resources = (sampler as ResourceSampler | null)?.stop();
+    if (spawned) this.activeProcesses.delete(spawned);
+
     const duration = Date.now() - startTime;
 
-    stdout = stripAnsi(stdout);
-    stderr = stripAnsi(stderr);
+    const stdout = stripAnsi(result.stdout);
+    let stderr = stripAnsi(result.stderr);
+    let exitCode = result.exitCode;
 
-    if (timedOut) {
-      stderr = `[TIMEOUT] Command killed after ${timeout / 1000}s\n\n${stderr}`;
+    if (result.timedOut) {
+      stderr = `[TIMEOUT] Command killed after ${step.timeout / 1000}s\n\n${stderr}`;
+      exitCode = exitCode || 1;
+    } else if (step.interruptible && this.interruptReason && exitCode !== 0) {
+      stderr = `[INTERRUPTED] ${this.interruptReason}\n\n${stderr}`;
     }
 
     return {
       name: step.name,
       command: step.command,
+      status: exitCode === 0 ? 'passed' : 'failed',
       stdout,
       stderr,
       exitCode,
       duration,
+      resources,
     };
   }
 
@@ -196,53 +645,275 @@ export class TestExecutor {
     return { expected, rejected };
   }
 
-  async executeTestCase(testCase: TestCase): Promise<TestResult> {
+  /**
+   * Check whether a step result satisfies its `until` condition.
+   */
+  private isSatisfied(result: StepResult, until: TestStep['until']): boolean {
+    const exitOk = result.exitCode === 0;
+    const patternsOk =
+      (!result.patternMatches ||
+        (result.patternMatches.expected.every((p) => p.found) &&
+          result.patternMatches.rejected.every((p) => !p.found))) &&
+      (result.assertions ?? []).every((a) => a.pass);
+
+    switch (until) {
+      case 'exitCode':
+        return exitOk;
+      case 'patterns':
+        return patternsOk;
+      default:
+        return exitOk && patternsOk;
+    }
+  }
+
+  /**
+   * Execute a step, re-running it until its `until` condition holds or
+   * its retries are used up. The returned result holds the output of the
+   * last attempt and the total duration across all attempts.
+   */
+  private async executeStepWithRetries(
+    step: TestStep,
+    resolved: ResolvedStep,
+    ctx: TestContext
+  ): Promise<StepResult> {
+    const maxAttempts = (step.retries ?? 0) + 1;
+    const interval = step.retryInterval ?? CONFIG.defaultRetryInterval;
+    const attempts: StepAttempt[] = [];
     const startTime = Date.now();
-    const stepResults: StepResult[] = [];
-    const timestamp = new Date().toISOString().substring(11, 19);
 
-    this.currentTest++;
-    this.currentTestId = testCase.id;
-    this.variables = {};
-    this.progress(
-      `[${timestamp}] [${this.currentTest}/${this.totalTests}] ${testCase.id}: ${testCase.name}`
+    for (let attempt = 1; ; attempt++) {
+      const result = await this.executeStep(resolved, ctx);
+      result.patternMatches = this.checkPatterns(
+        result,
+        step.expectPatterns,
+        step.rejectPatterns
+      );
+      if (step.assert) {
+        result.assertions = evaluateAssertions(result.stdout, step.assert);
+      }
+
+      const satisfied = this.isSatisfied(result, step.until);
+      attempts.push({
+        attempt,
+        exitCode: result.exitCode,
+        duration: result.duration,
+        satisfied,
+      });
+
+      const interrupted = resolved.interruptible && this.interruptReason !== null;
+      if (satisfied || attempt >= maxAttempts || interrupted) {
+        if (maxAttempts > 1) {
+          result.attempts = attempts;
+          result.duration = Date.now() - startTime;
+        }
+        return result;
+      }
+
+      this.progress(
+        `    [RETRY] Attempt ${attempt}/${maxAttempts} not satisfied (exit ${result.exitCode}), retrying in ${interval}ms`,
+        ctx
+      );
+      await new Promise((resolve) => setTimeout(resolve, interval));
+    }
+  }
+
+  /**
+   * Check `when` / `skipIf` conditions of a step (or, without `step`, of a
+   * test case). Returns why it is skipped, or undefined if it should run.
+   */
+  private async checkConditions(
+    when: Condition[] | undefined,
+    skipIf: Condition[] | undefined,
+    defaults: StepDefaults,
+    ctx: TestContext,
+    step?: TestStep
+  ): Promise<string | undefined> {
+    for (const condition of when ?? []) {
+      if (!(await this.evaluateCondition(condition, defaults, ctx, step))) {
+        return `Condition not met: when ${describeCondition(condition)}`;
+      }
+    }
+    for (const condition of skipIf ?? []) {
+      if (await this.evaluateCondition(condition, defaults, ctx, step)) {
+        return `Condition met: skipIf ${describeCondition(condition)}`;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Evaluate one condition. Commands and `env` see the same environment,
+   * working directory and shell as the step would.
+   */
+  private async evaluateCondition(
+    condition: Condition,
+    defaults: StepDefaults,
+    ctx: TestContext,
+    step?: TestStep
+  ): Promise<boolean> {
+    if (condition.var !== undefined) {
+      const [, namespace, varName] = condition.var.match(/^(?:([\w-]+)\.)?(\w+)$/) ?? [];
+      const value = namespace
+        ? this.resolveImport(namespace, varName, ctx)
+        : ctx.variables[condition.var] ?? process.env[condition.var];
+      return checkVariable(condition, value);
+    }
+
+    const resolved = this.resolveStep(
+      { name: 'condition', command: condition.command, env: step?.env, cwd: step?.cwd, shell: step?.shell },
+      defaults,
+      ctx
     );
+    if (condition.env !== undefined) {
+      return !!resolved.env[condition.env];
+    }
 
-    if (this.logCollector) {
-      this.logCollector.markTestStart(testCase.id);
+    const result = await runCommand({
+      command: resolved.command,
+      cwd: resolved.cwd,
+      shell: resolved.shell,
+      env: resolved.env,
+      timeout: step?.timeout ?? defaults.timeout,
+      maxOutput: CONFIG.logs.maxBuffer,
+    });
+    return result.exitCode === 0 && !result.timedOut;
+  }
+
+  /**
+   * Compare a snapshot step's normalized (and masked) stdout with its
+   * golden file, or rewrite the file with --update-snapshots.
+   */
+  private checkSnapshot(step: TestStep, result: StepResult, ctx: TestContext): StepResult['snapshot'] {
+    if (!ctx.sourceFile) {
+      this.progress(`    [WARN] Snapshot of "${step.name}" skipped: no test file to store it next to`, ctx);
+      return undefined;
+    }
+
+    const output = normalizeOutput(result.stdout, step.normalize ?? [], {
+      [this.config.workingDir]: '<ROOT>',
+      [ctx.tmpDir ?? '']: '<TMPDIR>',
+      [homedir()]: '<HOME>',
+    });
+    const snapshot = compareSnapshot(
+      snapshotPath(ctx.sourceFile, ctx.id, step.name),
+      output,
+      this.config.updateSnapshots
+    );
+
+    const file = path.relative(this.config.workingDir, snapshot.file);
+    if (snapshot.updated) {
+      this.progress(`    Snapshot written: ${file}`, ctx);
+    } else if (!snapshot.pass) {
+      this.progress(`    Snapshot mismatch: ${file}`, ctx);
     }
+    return snapshot;
+  }
+
+  /**
+   * Build the result for a step that was skipped by its conditions.
+   */
+  private skippedStep(step: TestStep, reason: string): StepResult {
+    return { ...this.notRunStep(step), status: 'skipped', skipReason: reason };
+  }
+
+  /**
+   * Build the result for a step that was never executed.
+   */
+  private notRunStep(step: TestStep): StepResult {
+    return {
+      name: step.name,
+      command: describeStep(step),
+      status: 'not-run',
+      stdout: '',
+      stderr: '',
+      exitCode: -1,
+      duration: 0,
+    };
+  }
+
+  /**
+   * Execute a list of steps in order, sharing the context's variables.
+   * `label` names the phase in progress output (Step, Teardown, beforeAll...).
+   * With `failFast`, the first failing step (unless marked continueOnError)
+   * stops execution and the remaining steps are recorded as not-run. An
+   * interrupt does the same unless `interruptible` is false (cleanup steps).
+   */
+  private async runSteps(
+    steps: TestStep[],
+    defaults: StepDefaults,
+    ctx: TestContext,
+    label: string,
+    failFast: boolean,
+    interruptible: boolean = true
+  ): Promise<StepResult[]> {
+    const stepResults: StepResult[] = [];
+    let stoppedBy: string | null = null;
+    let interrupted = false;
+
+    for (let i = 0; i < steps.length; i++) {
+      const step = steps[i];
+
+      if (interruptible && this.interruptReason) {
+        interrupted = true;
+      }
+      if (stoppedBy || interrupted) {
+        stepResults.push(this.notRunStep(step));
+        continue;
+      }
 
-    for (let i = 0; i < testCase.steps.length; i++) {
-      const step = testCase.steps[i];
       const stepTimestamp = new Date().toISOString().substring(11, 19);
 
       this.progress(
-        `  [${stepTimestamp}] Step ${i + 1}/${testCase.steps.length}: ${step.name}`
+        `  [${stepTimestamp}] ${label} ${i + 1}/${steps.length}: ${step.name}`,
+        ctx
       );
 
-      const resolvedCommand = this.substituteVariables(step.command);
-      const cmdPreview =
-        resolvedCommand.length > 80
-          ? resolvedCommand.substring(0, 80) + '...'
-          : resolvedCommand;
-      this.progress(`    Command: ${cmdPreview}`);
+      if (step.when || step.skipIf) {
+        const skipReason = await this.checkConditions(step.when, step.skipIf, defaults, ctx, step);
+        if (skipReason) {
+          this.progress(`    [SKIP] ${skipReason}`, ctx);
+          stepResults.push(this.skippedStep(step, secretMasker.mask(skipReason)));
+          continue;
+        }
+      }
 
-      const resolvedStep = { ...step, command: resolvedCommand };
-      const result = await this.executeStep(resolvedStep, testCase.timeout);
+      const resolved = { ...this.resolveStep(step, defaults, ctx), interruptible };
+      const cmdPreview =
+        resolved.command.length > 80
+          ? resolved.command.substring(0, 80) + '...'
+          : resolved.command;
+      this.progress(`    Command: ${cmdPreview}`, ctx);
+      if (resolved.cwd !== this.config.workingDir) {
+        this.progress(`    Cwd: ${resolved.cwd}`, ctx);
+      }
 
-      result.patternMatches = this.checkPatterns(
-        result,
-        step.expectPatterns,
-        step.rejectPatterns
-      );
+      const rawResult = await this.executeStepWithRetries(step, resolved, ctx);
 
-      this.captureVariables(step, result);
+      // Captures need the real output; everything recorded afterwards is masked
+      this.captureVariables(step, rawResult, ctx);
+      const result = secretMasker.maskDeep(rawResult);
+      if (result.assertions?.some((a) => !a.pass)) {
+        result.status = 'failed';
+      }
+      if (step.snapshot) {
+        result.snapshot = this.checkSnapshot(step, result, ctx);
+        if (result.snapshot && !result.snapshot.pass) {
+          result.status = 'failed';
+        }
+      }
 
       stepResults.push(result);
 
-      const status = result.exitCode === 0 ? '[PASS]' : '[FAIL]';
+      const status = result.status === 'passed' ? '[PASS]' : '[FAIL]';
       const duration = `${(result.duration / 1000).toFixed(1)}s`;
-      this.progress(`    ${status} Exit: ${result.exitCode} (${duration})`);
+      const attemptsInfo = result.attempts ? `, ${result.attempts.length} attempt(s)` : '';
+      const resourcesInfo = result.resources
+        ? `, cpu ${(result.resources.cpuTime / 1000).toFixed(1)}s, peak ${formatBytes(result.resources.peakRss)}`
+        : '';
+      this.progress(
+        `    ${status} Exit: ${result.exitCode} (${duration}${attemptsInfo}${resourcesInfo})`,
+        ctx
+      );
 
       if (result.patternMatches) {
         const expectedMissing = result.patternMatches.expected.filter(
@@ -253,41 +924,133 @@ export class TestExecutor {
         );
         if (expectedMissing.length > 0) {
           this.progress(
-            `    Missing patterns: ${expectedMissing.map((p) => p.pattern).join(', ')}`
+            `    Missing patterns: ${expectedMissing.map((p) => p.pattern).join(', ')}`,
+            ctx
           );
         }
         if (rejectedFound.length > 0) {
           this.progress(
-            `    Rejected patterns found: ${rejectedFound.map((p) => p.pattern).join(', ')}`
+            `    Rejected patterns found: ${rejectedFound.map((p) => p.pattern).join(', ')}`,
+            ctx
           );
         }
       }
 
+      const failedAssertions = (result.assertions ?? []).filter((a) => !a.pass);
+      if (failedAssertions.length > 0) {
+        this.progress(
+          `    Failed assertions: ${failedAssertions.map((a) => `${a.path} ${a.operator}`).join(', ')}`,
+          ctx
+        );
+      }
+
       if (result.exitCode !== 0 && result.stderr) {
         const errorPreview = result.stderr.split('\n')[0].substring(0, 100);
-        this.progress(`    Error: ${errorPreview}`);
+        this.progress(`    Error: ${errorPreview}`, ctx);
+      }
+
+      if (failFast && result.status === 'failed' && !step.continueOnError) {
+        stoppedBy = step.name;
+      }
+    }
+
+    const notRun = steps.length - stepResults.filter((r) => r.status !== 'not-run').length;
+    if (interrupted && notRun > 0) {
+      this.progress(`    [STOP] ${notRun} remaining step(s) not run: ${this.interruptReason}`, ctx);
+    } else if (stoppedBy && notRun > 0) {
+      this.progress(`    [STOP] ${notRun} remaining step(s) not run after "${stoppedBy}" failed`, ctx);
+    }
+
+    return stepResults;
+  }
+
+  async executeTestCase(testCase: TestCase): Promise<TestResult> {
+    const startTime = Date.now();
+    let stepResults: StepResult[] = [];
+    let teardownResults: StepResult[] = [];
+    let backgroundLogs = '';
+    let artifacts: string[] = [];
+    const timestamp = new Date().toISOString().substring(11, 19);
+    const tmpDir = mkdtempSync(path.join(tmpdir(), `${CONFIG.sessionPrefix}-${testFileName(testCase.id)}-`));
+    const ctx: TestContext = {
+      id: testCase.id,
+      variables: { ...testCase.matrix, TEST_TMPDIR: tmpDir },
+      tmpDir,
+      sourceFile: testCase.sourceFile,
+      captureSteps: {},
+      imports: this.collectImports(testCase),
+      usedImports: new Map(),
+      secrets: testCase.secrets,
+    };
+    const defaults: StepDefaults = {
+      timeout: testCase.timeout,
+      env: testCase.env,
+      cwd: testCase.cwd,
+      shell: testCase.shell,
+    };
+
+    this.currentTest++;
+    this.progress(
+      `[${timestamp}] [${this.currentTest}/${this.totalTests}] ${testCase.id}: ${testCase.name}`
+    );
+
+    if (this.logCollector) {
+      this.logCollector.markTestStart(testCase.id);
+    }
+
+    try {
+      stepResults = await this.runSteps(
+        testCase.steps,
+        defaults,
+        ctx,
+        'Step',
+        testCase.failFast ?? CONFIG.failFast
+      );
+    } finally {
+      // Collect artifacts before teardown can clean them up
+      if (testCase.artifacts && testCase.artifacts.length > 0) {
+        artifacts = await this.collectTestArtifacts(testCase, ctx);
       }
+
+      // Teardown always runs, even when a step throws unexpectedly
+      if (testCase.teardown && testCase.teardown.length > 0) {
+        teardownResults = await this.runSteps(
+          testCase.teardown,
+          defaults,
+          ctx,
+          'Teardown',
+          false,
+          false
+        );
+      }
+      backgroundLogs = await this.stopBackground(ctx);
+      await ctx.mcpSession?.close();
+      rmSync(tmpDir, { recursive: true, force: true });
     }
 
+    const containers = this.logCollector?.getContainerStats(startTime, Date.now());
+    const exports = this.publishExports(testCase, ctx);
+    const imports = secretMasker.maskDeep([...ctx.usedImports!.values()]);
     const totalDuration = Date.now() - startTime;
 
     let logs = '';
     let logFile = '';
     if (this.logCollector) {
       this.logCollector.markTestEnd(testCase.id);
+      await this.logCollector.flush();
       logFile = this.logCollector.extractTestLogs(testCase.id);
       logs = this.logCollector.getLogsForTest(testCase.id);
     }
-    this.currentTestId = null;
 
     if (!logs) {
-      logs = stepResults
+      logs = [...stepResults, ...teardownResults]
+        .filter((r) => r.status !== 'not-run' && r.status !== 'skipped')
         .map(
           (r) =>
             `=== Step: ${r.name} ===
 Command: ${r.command}
 Exit Code: ${r.exitCode}
-Duration: ${r.duration}ms
+Duration: ${r.duration}ms${r.attempts ? `\nAttempts: ${r.attempts.length}` : ''}
 
 STDOUT:
 ${r.stdout || '(empty)'}
@@ -299,53 +1062,372 @@ ${r.stderr || '(empty)'}
         .join('\n' + '='.repeat(50) + '\n');
     }
 
+    // Output of processes that outlived their steps
+    const mcpStderr = ctx.mcpSession?.getStderr();
+    const extraLogs =
+      backgroundLogs +
+      (mcpStderr ? `\n=== MCP server stderr ===\n${secretMasker.mask(stripAnsi(mcpStderr))}` : '');
+    if (extraLogs) {
+      logs += extraLogs;
+      if (logFile) {
+        appendFileSync(logFile, extraLogs);
+      }
+    }
+
     return {
       testCase,
       steps: stepResults,
+      teardown: teardownResults.length > 0 ? teardownResults : undefined,
+      exports: exports.length > 0 ? exports : undefined,
+      imports: imports.length > 0 ? imports : undefined,
+      containers: containers?.length ? containers : undefined,
+      artifacts: artifacts.length > 0 ? artifacts : undefined,
       totalDuration,
       logs,
       logFile,
     };
   }
 
-  async executeAll(testCases: TestCase[]): Promise<TestResult[]> {
-    const results: TestResult[] = [];
+  /**
+   * Copy the files matching a test's `artifacts:` globs into
+   * `<outputDir>/<TEST_ID>/artifacts/`. Globs may use {{variables}}, such
+   * as {{TEST_TMPDIR}}; relative globs start from the test's cwd.
+   */
+  private async collectTestArtifacts(testCase: TestCase, ctx: TestContext): Promise<string[]> {
+    const baseDir = testCase.cwd
+      ? path.resolve(this.config.workingDir, this.substituteVariables(testCase.cwd, ctx))
+      : this.config.workingDir;
+    const destDir = path.join(
+      this.config.outputDir,
+      testFileName(testCase.id, this.attempt),
+      'artifacts'
+    );
 
-    this.totalTests = testCases.length;
-    this.currentTest = 0;
+    try {
+      const patterns = testCase.artifacts!.map((pattern) => this.substituteVariables(pattern, ctx));
+      const artifacts = await collectArtifacts(patterns, baseDir, ctx.tmpDir!, destDir);
+      this.progress(`  Artifacts: ${artifacts.length} file(s) copied to ${destDir}`, ctx);
+      return artifacts;
+    } catch (err) {
+      this.progress(`  [WARN] Failed to collect artifacts: ${err}`, ctx);
+      return [];
+    }
+  }
 
-    const startTimestamp = new Date().toISOString().substring(11, 19);
-    this.progress(`\n[${startTimestamp}] Starting ${this.totalTests} test(s)...`);
-    this.progress('-'.repeat(60));
+  /**
+   * Run one suite hook (beforeAll/afterAll) in its own context.
+   */
+  private async runHook(
+    hooks: SuiteHooks,
+    hook: 'beforeAll' | 'afterAll'
+  ): Promise<StepResult[]> {
+    const steps = hooks[hook];
+    if (steps.length === 0) return [];
 
-    // Determine if we need the log collector (for Docker-based tests)
-    const needsLogCollector = testCases.some(
-      (tc) => tc.suite === 'integration' || tc.suite === 'e2e'
+    const ctx: TestContext = { id: `${hooks.suite}:${hook}`, variables: {} };
+    // Background processes started by hooks live until the suite finishes
+    this.suiteContexts.set(hooks.suite, [...(this.suiteContexts.get(hooks.suite) ?? []), ctx]);
+    const timestamp = new Date().toISOString().substring(11, 19);
+    this.progress(`[${timestamp}] Suite ${hooks.suite}: ${hook}`);
+    // beforeAll stops at its first failure; afterAll is cleanup and runs fully
+    const beforeAll = hook === 'beforeAll';
+    return this.runSteps(steps, { timeout: hooks.timeout }, ctx, hook, beforeAll, beforeAll);
+  }
+
+  /**
+   * Build the result for a test that is not executed.
+   */
+  private skipTestCase(testCase: TestCase, reason: string): TestResult {
+    const timestamp = new Date().toISOString().substring(11, 19);
+
+    this.currentTest++;
+    this.progress(
+      `[${timestamp}] [${this.currentTest}/${this.totalTests}] ${testCase.id}: ${testCase.name}`
     );
+    this.progress(`  [SKIP] ${reason}`);
 
-    if (needsLogCollector) {
-      this.logCollector = new LogCollector(
-        this.config.dockerComposePath,
-        this.config.outputDir
-      );
-      try {
-        await this.logCollector.start();
-        this.progress(`[LOG] Docker log collector started`);
-      } catch (err) {
-        this.progress(`[WARN] Failed to start log collector: ${err}`);
-        this.logCollector = null;
+    return {
+      testCase,
+      skipReason: reason,
+      steps: [],
+      totalDuration: 0,
+      logs: '',
+      logFile: '',
+    };
+  }
+
+  /**
+   * Build the result for a test whose execution threw unexpectedly, so the
+   * error fails that test instead of aborting the whole run.
+   */
+  private crashedTestCase(testCase: TestCase, error: unknown): TestResult {
+    const message = secretMasker.mask(
+      error instanceof Error ? error.stack ?? error.message : String(error)
+    );
+    this.progress(`  [ERROR] ${testCase.id} aborted: ${message.split('\n')[0]}`);
+
+    return {
+      testCase,
+      steps: [
+        {
+          name: 'Test execution',
+          command: '',
+          status: 'failed',
+          stdout: '',
+          stderr: message,
+          exitCode: -1,
+          duration: 0,
+        },
+      ],
+      totalDuration: 0,
+      logs: message,
+      logFile: '',
+    };
+  }
+
+  /**
+   * Check a test case's `when` / `skipIf` conditions before it starts.
+   * Matrix values and dependencies' exports are available as variables.
+   */
+  private async checkTestConditions(testCase: TestCase): Promise<string | undefined> {
+    if (!testCase.when && !testCase.skipIf) return undefined;
+    const ctx: TestContext = {
+      id: testCase.id,
+      variables: { ...testCase.matrix },
+      imports: this.collectImports(testCase),
+      secrets: testCase.secrets,
+    };
+    const defaults: StepDefaults = {
+      timeout: testCase.timeout,
+      env: testCase.env,
+      cwd: testCase.cwd,
+      shell: testCase.shell,
+    };
+    const reason = await this.checkConditions(testCase.when, testCase.skipIf, defaults, ctx);
+    return reason && secretMasker.mask(reason);
+  }
+
+  /**
+   * Find the first dependency of a test that did not pass. Dependencies are
+   * judged with the simple judge so a broken prerequisite stops its
+   * dependents before they run; dependencies outside this run are ignored.
+   */
+  private findFailedDependency(
+    testCase: TestCase,
+    results: Map<string, TestResult>
+  ): string | undefined {
+    for (const depId of testCase.dependencies) {
+      const dep = results.get(depId);
+      if (!dep) continue;
+      if (dep.skipReason) {
+        return `Dependency ${depId} was skipped`;
+      }
+      if (!this.dependencyJudge.judge(dep).pass) {
+        return `Dependency ${depId} failed`;
       }
     }
+    return undefined;
+  }
+
+  /**
+   * Run test cases with up to `config.jobs` executing at once. A test is
+   * started only after every dependency in the run has finished; tests are
+   * considered in the given (dependency-sorted) order. Results are returned
+   * in that same order regardless of completion order.
+   *
+   * A suite's beforeAll hook runs once, before its first test starts; its
+   * afterAll hook runs once the suite's last test has finished.
+   */
+  private async runScheduled(
+    testCases: TestCase[],
+    suiteHooks: Map<string, SuiteHooks>
+  ): Promise<TestResult[]> {
+    const jobs = Math.max(1, this.config.jobs);
+    const inRun = new Set(testCases.map((tc) => tc.id));
+    const finished = new Set<string>();
+    const results = new Map<string, TestResult>();
+    const running = new Map<string, Promise<void>>();
+    const pending = [...testCases];
+    const beforeAllRuns = new Map<string, Promise<StepResult[]>>();
+    const suiteRemaining = new Map<string, number>();
 
     for (const tc of testCases) {
-      const result = await this.executeTestCase(tc);
-      results.push(result);
+      suiteRemaining.set(tc.suite, (suiteRemaining.get(tc.suite) ?? 0) + 1);
     }
 
-    if (this.logCollector) {
-      await this.logCollector.stop();
-      this.logCollector.copySessionToOutput();
-      this.progress(`[LOG] Docker log collector stopped`);
+    const isReady = (tc: TestCase) =>
+      tc.dependencies.every((depId) => finished.has(depId) || !inRun.has(depId));
+
+    const runTest = async (tc: TestCase): Promise<TestResult> => {
+      if (this.interruptReason) {
+        return { ...this.skipTestCase(tc, `Run interrupted (${this.interruptReason})`), notRun: true };
+      }
+
+      const skipReason =
+        this.findFailedDependency(tc, results) ?? (await this.checkTestConditions(tc));
+      if (skipReason) {
+        return this.skipTestCase(tc, skipReason);
+      }
+
+      const hooks = suiteHooks.get(tc.suite);
+      if (!hooks) {
+        return this.executeTestCase(tc);
+      }
+
+      if (!beforeAllRuns.has(tc.suite)) {
+        beforeAllRuns.set(tc.suite, this.runHook(hooks, 'beforeAll'));
+      }
+      const beforeAll = await beforeAllRuns.get(tc.suite)!;
+
+      const result = beforeAll.some((r) => r.status === 'failed')
+        ? this.skipTestCase(tc, `Suite ${tc.suite} beforeAll hook failed`)
+        : await this.executeTestCase(tc);
+      if (beforeAll.length > 0) {
+        result.hooks = { beforeAll };
+      }
+      return result;
+    };
+
+    const finishSuite = async (suite: string) => {
+      const hooks = suiteHooks.get(suite);
+      if (!hooks || !beforeAllRuns.has(suite)) return;
+
+      const afterAll = await this.runHook(hooks, 'afterAll');
+
+      let backgroundLogs = '';
+      for (const ctx of this.suiteContexts.get(suite) ?? []) {
+        backgroundLogs += await this.stopBackground(ctx);
+      }
+      this.suiteContexts.delete(suite);
+
+      for (const result of results.values()) {
+        // Tests skipped for a failed dependency never ran inside the suite hooks
+        if (result.testCase.suite !== suite || (result.skipReason && !result.hooks)) continue;
+        if (afterAll.length > 0) {
+          result.hooks = { ...result.hooks, afterAll };
+        }
+        if (backgroundLogs && !result.skipReason) {
+          result.logs += backgroundLogs;
+          if (result.logFile) {
+            appendFileSync(result.logFile, backgroundLogs);
+          }
+        }
+      }
+    };
+
+    const start = (tc: TestCase) => {
+      const task = runTest(tc)
+        .catch((error) => this.crashedTestCase(tc, error))
+        .then(async (result) => {
+          results.set(tc.id, result);
+
+          const remaining = suiteRemaining.get(tc.suite)! - 1;
+          suiteRemaining.set(tc.suite, remaining);
+          if (remaining === 0) {
+            await finishSuite(tc.suite);
+          }
+
+          finished.add(tc.id);
+          running.delete(tc.id);
+        });
+      running.set(tc.id, task);
+    };
+
+    while (pending.length > 0 || running.size > 0) {
+      for (let i = 0; i < pending.length && running.size < jobs; ) {
+        if (isReady(pending[i])) {
+          start(pending.splice(i, 1)[0]);
+        } else {
+          i++;
+        }
+      }
+
+      // The loader rejects unknown and cyclic dependencies, so something
+      // is always runnable while nothing is in flight
+      if (running.size === 0 && pending.length > 0) {
+        throw new Error(
+          `Internal error: no runnable test among ${pending.map((tc) => tc.id).join(', ')}`
+        );
+      }
+
+      await Promise.race(running.values());
+    }
+
+    return testCases.map((tc) => results.get(tc.id)!);
+  }
+
+  /**
+   * Start the Docker log collector if any of the tests needs it (the
+   * integration and e2e suites). executeAll starts and stops the collector
+   * itself unless one is already running.
+   */
+  async startLogCollector(testCases: TestCase[]): Promise<void> {
+    const needsLogCollector = testCases.some(
+      (tc) => tc.suite === 'integration' || tc.suite === 'e2e'
+    );
+    if (!needsLogCollector || this.logCollector) return;
+
+    this.logCollector = new LogCollector(
+      this.config.dockerComposePath,
+      this.config.outputDir,
+      this.attempt
+    );
+    try {
+      await this.logCollector.start();
+      this.progress(`[LOG] Docker log collector started`);
+    } catch (err) {
+      this.progress(`[WARN] Failed to start log collector: ${err}`);
+      this.logCollector = null;
+    }
+  }
+
+  async stopLogCollector(): Promise<void> {
+    if (!this.logCollector) return;
+    await this.logCollector.stop();
+    this.logCollector.copySessionToOutput();
+    this.logCollector = null;
+    this.progress(`[LOG] Docker log collector stopped`);
+  }
+
+  async executeAll(
+    testCases: TestCase[],
+    suiteHooks: Map<string, SuiteHooks> = new Map(),
+    attempt: number = 1
+  ): Promise<TestResult[]> {
+    this.attempt = attempt;
+    this.totalTests = testCases.length;
+    this.currentTest = 0;
+    this.exportsByTest.clear();
+    secretMasker.registerEnv(process.env);
+
+    const startTimestamp = new Date().toISOString().substring(11, 19);
+    const jobsInfo = this.config.jobs > 1 ? ` (${this.config.jobs} parallel jobs)` : '';
+    this.progress(`\n[${startTimestamp}] Starting ${this.totalTests} test(s)...${jobsInfo}`);
+    this.progress('-'.repeat(60));
+
+    // A collector started by the caller (watch mode) outlives this run
+    const ownsLogCollector = !this.logCollector;
+    if (ownsLogCollector) {
+      await this.startLogCollector(testCases);
+    }
+
+    this.runStartedAt ??= Date.now();
+    const maxRunTimer = this.config.maxRunTime
+      ? setTimeout(
+          () => this.interrupt(`Max run time of ${this.config.maxRunTime! / 1000}s exceeded`),
+          this.runStartedAt + this.config.maxRunTime - Date.now()
+        )
+      : null;
+
+    let results: TestResult[];
+    try {
+      results = await this.runScheduled(testCases, suiteHooks);
+    } finally {
+      if (maxRunTimer) clearTimeout(maxRunTimer);
+      // Always stop the `docker compose logs` child, even if the run failed
+      if (ownsLogCollector) {
+        await this.stopLogCollector();
+      }
     }
 
     const endTimestamp = new Date().toISOString().substring(11, 19);
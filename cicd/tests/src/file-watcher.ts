@@ -0,0 +1,91 @@
+/**
+ * File watcher for `run --watch`.
+ *
+ * Polls the modification times of the files matching a set of globs. Polling
+ * behaves the same on every platform and notices files created after the
+ * watcher started; node_modules is never scanned.
+ */
+
+import { statSync } from 'fs';
+import { glob } from 'glob';
+import { CONFIG } from './config.js';
+
+export class FileWatcher {
+  private snapshot = new Map<string, number>();
+  private stopped = false;
+
+  constructor(
+    private patterns: string[],
+    private cwd: string,
+    private interval: number = CONFIG.watch.pollInterval
+  ) {}
+
+  /**
+   * Record the current state of the watched files.
+   */
+  async start(): Promise<void> {
+    this.stopped = false;
+    this.snapshot = await this.scan();
+  }
+
+  /**
+   * Wait until watched files are created, modified or deleted, then until
+   * they stay unchanged for one poll interval (editors often write a file
+   * in several steps). Resolves with the changed paths, or an empty list
+   * once the watcher is stopped.
+   */
+  async waitForChanges(): Promise<string[]> {
+    const changed = new Set<string>();
+
+    while (!this.stopped) {
+      await new Promise((resolve) => setTimeout(resolve, this.interval));
+      if (this.stopped) break;
+
+      const current = await this.scan();
+      const changes = this.diff(current);
+      this.snapshot = current;
+
+      if (changes.length > 0) {
+        changes.forEach((file) => changed.add(file));
+      } else if (changed.size > 0) {
+        return [...changed].sort();
+      }
+    }
+
+    return [];
+  }
+
+  stop(): void {
+    this.stopped = true;
+  }
+
+  private async scan(): Promise<Map<string, number>> {
+    const files = await glob(this.patterns, {
+      cwd: this.cwd,
+      absolute: true,
+      nodir: true,
+      ignore: ['**/node_modules/**'],
+    });
+
+    const mtimes = new Map<string, number>();
+    for (const file of files) {
+      try {
+        mtimes.set(file, statSync(file).mtimeMs);
+      } catch {
+        // Deleted between the glob and the stat
+      }
+    }
+    return mtimes;
+  }
+
+  private diff(current: Map<string, number>): string[] {
+    const changes: string[] = [];
+    for (const [file, mtime] of current) {
+      if (this.snapshot.get(file) !== mtime) changes.push(file);
+    }
+    for (const file of this.snapshot.keys()) {
+      if (!current.has(file)) changes.push(file);
+    }
+    return changes;
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * HTTP request runner for `request:` steps.
+ *
+ * Sends the request in-process with axios and returns the raw response
+ * (status, headers, body text). Any status code is returned as a response;
+ * only network-level failures and timeouts produce an error.
+ */
+
+import axios, { AxiosError } from 'axios';
+import { HttpRequest, HttpResponse } from './types.js';
+
+export interface HttpRequestResult {
+  /** Response, if the server answered */
+  response?: HttpResponse;
+  /** Network error or timeout message */
+  error?: string;
+  /** Whether the request hit its timeout */
+  timedOut: boolean;
+}
+
+/**
+ * Serialize a request body. Objects and arrays are sent as JSON.
+ */
+function encodeBody(body: unknown): string | undefined {
+  if (body === undefined || body === null) return undefined;
+  return typeof body === 'string' ? body : JSON.stringify(body);
+}
+
+export async function sendRequest(
+  request: HttpRequest,
+  timeout: number
+): Promise<HttpRequestResult> {
+  const headers: Record<string, string> = { ...request.headers };
+  const isJsonBody = request.body !== undefined && typeof request.body !== 'string';
+  const hasContentType = Object.keys(headers).some((h) => h.toLowerCase() === 'content-type');
+  if (isJsonBody && !hasContentType) {
+    headers['Content-Type'] = 'application/json';
+  }
+
+  try {
+    const response = await axios.request({
+      method: request.method ?? 'GET',
+      url: request.url,
+      headers,
+      data: encodeBody(request.body),
+      timeout,
+      responseType: 'text',
+      transformResponse: (data) => data,
+      validateStatus: () => true,
+    });
+
+    const responseHeaders: Record<string, string> = {};
+    for (const [key, value] of Object.entries(response.headers)) {
+      if (value !== undefined && value !== null) {
+        responseHeaders[key.toLowerCase()] = Array.isArray(value) ? value.join(', ') : String(value);
+      }
+    }
+
+    return {
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        headers: responseHeaders,
+        body: typeof response.data === 'string' ? response.data : String(response.data ?? ''),
+      },
+      timedOut: false,
+    };
+  } catch (error) {
+    const err = error as AxiosError;
+    return {
+      error: err.message || String(error),
+      timedOut: err.code === 'ECONNABORTED' || err.code === 'ETIMEDOUT',
+    };
+  }
+}
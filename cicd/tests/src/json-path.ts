@@ -0,0 +1,71 @@
+/**
+ * JSON path helpers shared by captures, response checks and assertions.
+ */
+
+/**
+ * Resolve a dot-notation path with optional array syntax.
+ * Supports: "field", "nested.field", "items[0].id", "data[name=foo].id"
+ * Array index: arrayField[0] selects the element at that index
+ * Array find on field: arrayField[key=value] finds first element where element.key === value
+ * Array find on root: $[key=value].field finds in top-level array
+ * A path of "$" resolves to the whole value.
+ */
+export function resolvePath(obj: any, fieldPath: string): any {
+  const segments = fieldPath.match(/[^.]+/g) || [];
+  let current = obj;
+
+  for (const segment of segments) {
+    if (current === undefined || current === null) return undefined;
+
+    // Root reference: $
+    if (segment === '$') continue;
+
+    // Top-level array find: $[key=value]
+    const rootArrayMatch = segment.match(/^\$\[(\w+)=(.+)\]$/);
+    if (rootArrayMatch) {
+      const [, matchKey, matchValue] = rootArrayMatch;
+      if (!Array.isArray(current)) return undefined;
+      current = current.find((item: any) => String(item[matchKey]) === matchValue);
+      continue;
+    }
+
+    // Array index: fieldName[0] or $[0]
+    const indexMatch = segment.match(/^(\w+|\$)\[(\d+)\]$/);
+    if (indexMatch) {
+      const [, arrayField, index] = indexMatch;
+      const arr = arrayField === '$' ? current : current[arrayField];
+      if (!Array.isArray(arr)) return undefined;
+      current = arr[Number(index)];
+      continue;
+    }
+
+    // Named array find: fieldName[key=value]
+    const arrayMatch = segment.match(/^(\w+)\[(\w+)=(.+)\]$/);
+    if (arrayMatch) {
+      const [, arrayField, matchKey, matchValue] = arrayMatch;
+      const arr = current[arrayField];
+      if (!Array.isArray(arr)) return undefined;
+      current = arr.find((item: any) => String(item[matchKey]) === matchValue);
+    } else {
+      current = current[segment];
+    }
+  }
+
+  return current;
+}
+
+/**
+ * Parse step stdout as JSON. MCP double-encoded responses (JSON inside
+ * `content[0].text`) are unwrapped. Throws if stdout is not JSON.
+ */
+export function parseJsonOutput(stdout: string): any {
+  let parsed = JSON.parse(stdout);
+
+  // Handle MCP double-encoded responses: content[0].text wrapping
+  const innerText = parsed?.content?.[0]?.text;
+  if (innerText) {
+    try { parsed = JSON.parse(innerText); } catch { /* use outer */ }
+  }
+
+  return parsed;
+}
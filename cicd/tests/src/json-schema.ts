@@ -0,0 +1,285 @@
+/**
+ * Minimal JSON Schema (draft-07) validator for the published schemas in
+ * `schema/`.
+ *
+ * Supports only the keywords those schemas use: $ref (local, or to a sibling
+ * schema file), type, enum, properties, required, additionalProperties,
+ * propertyNames, minProperties, items, minItems, minLength, minimum,
+ * maximum, pattern, format: regex, anyOf and oneOf. Unlike a general
+ * validator it collects every error with the path of the offending value.
+ */
+
+import { readFileSync } from 'fs';
+import path from 'path';
+
+/** Keys and list indexes leading from the document root to a value */
+export type SchemaPath = (string | number)[];
+
+export interface SchemaError {
+  path: SchemaPath;
+  message: string;
+  /** Field rejected by `additionalProperties: false` */
+  unknownField?: boolean;
+}
+
+/**
+ * A schema node, with the keywords this validator supports. Annotations
+ * such as `description` are ignored.
+ */
+interface Schema {
+  $ref?: string;
+  type?: string | string[];
+  enum?: unknown[];
+  properties?: Record<string, Schema>;
+  required?: string[];
+  additionalProperties?: boolean | Schema;
+  propertyNames?: { pattern?: string };
+  minProperties?: number;
+  items?: Schema;
+  minItems?: number;
+  minLength?: number;
+  minimum?: number;
+  maximum?: number;
+  pattern?: string;
+  format?: string;
+  anyOf?: Schema[];
+  oneOf?: Schema[];
+  /** Named subschemas, reachable through a `$ref` pointer */
+  definitions?: Record<string, Schema>;
+}
+
+const TYPE_NAMES: Record<string, string> = {
+  string: 'a string',
+  integer: 'an integer',
+  number: 'a number',
+  boolean: 'true or false',
+  array: 'a list',
+  object: 'a map',
+  null: 'empty',
+};
+
+function typeMatches(type: string, value: unknown): boolean {
+  switch (type) {
+    case 'integer':
+      return Number.isInteger(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'null':
+      return value === null;
+    default:
+      return typeof value === type;
+  }
+}
+
+function toTypes(type: string | string[] | undefined): string[] {
+  return type === undefined ? [] : Array.isArray(type) ? type : [type];
+}
+
+/**
+ * Edit distance between two field names, for "did you mean" hints.
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+export class SchemaValidator {
+  private schemaDir: string;
+  private schemas = new Map<string, Schema>();
+
+  constructor(schemaDir: string) {
+    this.schemaDir = schemaDir;
+  }
+
+  /**
+   * Validate a value against a schema file in the schema directory.
+   */
+  validate(value: unknown, schemaFile: string): SchemaError[] {
+    const errors: SchemaError[] = [];
+    this.check(value, { $ref: `${schemaFile}#` }, schemaFile, [], errors);
+    return errors;
+  }
+
+  private load(file: string): Schema {
+    let schema = this.schemas.get(file);
+    if (!schema) {
+      schema = JSON.parse(readFileSync(path.join(this.schemaDir, file), 'utf-8')) as Schema;
+      this.schemas.set(file, schema);
+    }
+    return schema;
+  }
+
+  /**
+   * Follow `$ref`s to the schema they point at, tracking which file it is in.
+   */
+  private resolve(schema: Schema, file: string): { schema: Schema; file: string } {
+    while (typeof schema.$ref === 'string') {
+      const [refFile, pointer = ''] = schema.$ref.split('#');
+      file = refFile || file;
+      const target = pointer
+        .split('/')
+        .filter(Boolean)
+        .reduce<unknown>((node, key) => (node as Record<string, unknown> | undefined)?.[key], this.load(file));
+      if (typeof target !== 'object' || target === null) {
+        throw new Error(`Unresolved $ref in ${file}: #${pointer}`);
+      }
+      schema = target as Schema;
+    }
+    return { schema, file };
+  }
+
+  /**
+   * Whether a schema could describe a value of this type at all; used to
+   * pick the anyOf branch whose errors are worth reporting.
+   */
+  private acceptsType(schema: Schema, file: string, value: unknown): boolean {
+    const resolved = this.resolve(schema, file);
+    const types = toTypes(resolved.schema.type);
+    if (types.length > 0) return types.some((type) => typeMatches(type, value));
+    if (resolved.schema.anyOf) {
+      return resolved.schema.anyOf.some((branch) => this.acceptsType(branch, resolved.file, value));
+    }
+    return true;
+  }
+
+  private describeTypes(schemas: Schema[], file: string): string {
+    const types = schemas.flatMap((schema) => {
+      const resolved = this.resolve(schema, file);
+      return resolved.schema.anyOf
+        ? this.describeTypes(resolved.schema.anyOf, resolved.file).split(' or ')
+        : toTypes(resolved.schema.type).map((type) => TYPE_NAMES[type] ?? type);
+    });
+    return [...new Set(types)].join(' or ');
+  }
+
+  private check(value: unknown, schema: Schema, file: string, at: SchemaPath, errors: SchemaError[]): void {
+    ({ schema, file } = this.resolve(schema, file));
+
+    const types = toTypes(schema.type);
+    if (types.length > 0 && !types.some((type) => typeMatches(type, value))) {
+      errors.push({ path: at, message: `must be ${this.describeTypes([schema], file)}` });
+      return;
+    }
+    if (schema.enum && !schema.enum.includes(value)) {
+      errors.push({ path: at, message: `must be one of ${schema.enum.join(', ')}` });
+      return;
+    }
+
+    if (typeof value === 'string') {
+      if (schema.minLength !== undefined && value.length < schema.minLength) {
+        errors.push({ path: at, message: 'must not be empty' });
+      }
+      if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+        errors.push({ path: at, message: `'${value}' must match ${schema.pattern}` });
+      }
+      if (schema.format === 'regex') {
+        try {
+          new RegExp(value);
+        } catch (error) {
+          errors.push({ path: at, message: `invalid regex: ${(error as Error).message}` });
+        }
+      }
+    }
+
+    if (typeof value === 'number') {
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        errors.push({ path: at, message: `must be at least ${schema.minimum}` });
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        errors.push({ path: at, message: `must be at most ${schema.maximum}` });
+      }
+    }
+
+    if (Array.isArray(value)) {
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        errors.push({ path: at, message: 'must not be empty' });
+      }
+      if (schema.items) {
+        const items = schema.items;
+        value.forEach((item, index) => this.check(item, items, file, [...at, index], errors));
+      }
+    }
+
+    if (typeMatches('object', value)) {
+      const object = value as Record<string, unknown>;
+      const properties = schema.properties ?? {};
+      for (const field of schema.required ?? []) {
+        if (object[field] === undefined) {
+          errors.push({ path: at, message: `missing required field '${field}'` });
+        }
+      }
+      if (schema.minProperties !== undefined && Object.keys(object).length < schema.minProperties) {
+        errors.push({ path: at, message: 'must not be empty' });
+      }
+      for (const [key, child] of Object.entries(object)) {
+        if (schema.propertyNames?.pattern && !new RegExp(schema.propertyNames.pattern).test(key)) {
+          errors.push({ path: [...at, key], message: `invalid name '${key}' (must match ${schema.propertyNames.pattern})` });
+        }
+        if (properties[key]) {
+          this.check(child, properties[key], file, [...at, key], errors);
+        } else if (schema.additionalProperties === false) {
+          const known = Object.keys(properties).find(
+            (name) => name.toLowerCase() === key.toLowerCase() || editDistance(name, key) <= 2
+          );
+          errors.push({
+            path: [...at, key],
+            message: `unknown field '${key}'` + (known ? ` (did you mean '${known}'?)` : ''),
+            unknownField: true,
+          });
+        } else if (typeof schema.additionalProperties === 'object') {
+          this.check(child, schema.additionalProperties, file, [...at, key], errors);
+        }
+      }
+    }
+
+    if (schema.anyOf) {
+      const attempts = schema.anyOf.map((branch) => {
+        const branchErrors: SchemaError[] = [];
+        this.check(value, branch, file, at, branchErrors);
+        return { branch, branchErrors };
+      });
+      if (attempts.some((attempt) => attempt.branchErrors.length === 0)) return;
+
+      // Report the closest branch of the right type, else the expected types
+      const candidates = attempts
+        .filter((attempt) => this.acceptsType(attempt.branch, file, value))
+        .sort((a, b) => a.branchErrors.length - b.branchErrors.length);
+      if (candidates.length > 0) {
+        errors.push(...candidates[0].branchErrors);
+      } else {
+        errors.push({ path: at, message: `must be ${this.describeTypes(schema.anyOf, file)}` });
+      }
+    }
+
+    if (schema.oneOf) {
+      const matching = schema.oneOf.filter((branch) => {
+        const branchErrors: SchemaError[] = [];
+        this.check(value, branch, file, at, branchErrors);
+        return branchErrors.length === 0;
+      });
+      if (matching.length !== 1) {
+        // Branches of the form { required: [field] } mean "exactly one of these fields"
+        const fields = schema.oneOf.map((branch) => branch.required?.[0]);
+        errors.push({
+          path: at,
+          message: fields.every(Boolean)
+            ? `must have exactly one of ${fields.join(', ')}`
+            : 'must match exactly one of the allowed forms',
+        });
+      }
+    }
+  }
+}
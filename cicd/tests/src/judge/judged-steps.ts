@@ -0,0 +1,21 @@
+/**
+ * Selects which step results the judges evaluate.
+ *
+ * Teardown steps and suite hooks are recorded on every TestResult but only
+ * count toward a verdict when the test case sets `judgeHooks: true`.
+ */
+
+import { TestResult, StepResult } from '../types.js';
+
+export function getJudgedSteps(result: TestResult): StepResult[] {
+  if (!result.testCase.judgeHooks) {
+    return result.steps;
+  }
+
+  return [
+    ...(result.hooks?.beforeAll ?? []),
+    ...result.steps,
+    ...(result.teardown ?? []),
+    ...(result.hooks?.afterAll ?? []),
+  ];
+}
@@ -11,6 +11,7 @@
 import axios from 'axios';
 import { TestResult, Judgment } from '../types.js';
 import { CONFIG } from '../config.js';
+import { secretMasker } from '../secrets.js';
 
 export class LLMJudge {
   private ollamaUrl: string;
@@ -54,14 +55,45 @@ export class LLMJudge {
       return {
         name: step.name,
         command: step.command.trim(),
+        status: step.status,
+        skip_reason: step.skipReason,
         exit_code: step.exitCode,
         duration_ms: step.duration,
         timeout_ms: stepDef?.timeout || r.testCase.timeout,
-        stdout: this.truncate(step.stdout, CONFIG.llm.stdoutLimit),
+        attempts: step.attempts?.length,
+        failed_assertions: step.assertions?.filter((a) => !a.pass),
+        http_status: step.response?.status,
+        http_headers: step.response?.headers,
+        cpu_time_ms: step.resources?.cpuTime,
+        peak_rss_mb: step.resources && Math.round(step.resources.peakRss / (1024 * 1024)),
+        // Snapshot steps are judged on their diff, not their raw output
+        stdout: step.snapshot ? undefined : this.truncate(step.stdout, CONFIG.llm.stdoutLimit),
+        snapshot: step.snapshot && {
+          matches: step.snapshot.pass,
+          diff: step.snapshot.diff && this.truncate(step.snapshot.diff, CONFIG.llm.stdoutLimit),
+        },
         stderr: this.truncate(step.stderr, CONFIG.llm.stderrLimit),
       };
     });
 
+    // Teardown and suite hooks only count when the test opts in
+    const hookSteps = r.testCase.judgeHooks
+      ? [
+          ...(r.hooks?.beforeAll ?? []),
+          ...(r.teardown ?? []),
+          ...(r.hooks?.afterAll ?? []),
+        ].map((step) => ({
+          name: step.name,
+          command: step.command.trim(),
+          status: step.status,
+          skip_reason: step.skipReason,
+          exit_code: step.exitCode,
+          duration_ms: step.duration,
+          stdout: this.truncate(step.stdout, CONFIG.llm.stdoutLimit),
+          stderr: this.truncate(step.stderr, CONFIG.llm.stderrLimit),
+        }))
+      : undefined;
+
     const promptData = {
       role: `You are a test result evaluator for ${CONFIG.projectName}. Analyze the test execution data and determine if the test passed or failed.`,
       rules: [
@@ -69,6 +101,11 @@ export class LLMJudge {
         'Errors with exit code 0 are still FAIL',
         'For AI-generated text, accept reasonable variations',
         'Long durations within timeout are acceptable',
+        'Steps with attempts > 1 were retried until ready; earlier failed attempts are expected',
+        'Steps with status "not-run" never executed because an earlier step failed',
+        'Steps with a snapshot compare stdout with a stored golden file; a non-matching snapshot diff (- snapshot, + output) is a FAIL',
+        'Steps with status "skipped" were skipped on purpose by their when/skipIf conditions (see skip_reason); do not judge their output',
+        'Resource usage (cpu_time_ms, peak_rss_mb, container_stats) is context for slow or killed steps, not a failure by itself',
         'Focus on semantic correctness, not formatting differences',
       ],
       test: {
@@ -81,6 +118,13 @@ export class LLMJudge {
         duration_ms: r.totalDuration,
       },
       steps,
+      setup_and_cleanup_steps: hookSteps,
+      container_stats: r.containers?.map((c) => ({
+        name: c.name,
+        avg_cpu_percent: c.avgCpuPercent,
+        peak_cpu_percent: c.peakCpuPercent,
+        peak_memory_mb: Math.round(c.peakMemory / (1024 * 1024)),
+      })),
       container_logs: this.truncate(r.logs, CONFIG.llm.logsLimit),
       respond: {
         format: 'Respond with a single JSON object',
@@ -93,7 +137,8 @@ export class LLMJudge {
       },
     };
 
-    const prompt = JSON.stringify(promptData, null, 2);
+    // Step output is already masked; this also covers logs and criteria
+    const prompt = JSON.stringify(secretMasker.maskDeep(promptData), null, 2);
 
     // Log prompt stats
     const totalStdout = r.steps.reduce((sum, s) => sum + s.stdout.length, 0);
@@ -193,6 +238,16 @@ export class LLMJudge {
 
     for (let i = 0; i < results.length; i++) {
       const result = results[i];
+
+      if (result.skipReason) {
+        allJudgments.push({
+          testId: result.testCase.id,
+          pass: false,
+          reason: `Skipped: ${result.skipReason}`,
+        });
+        continue;
+      }
+
       process.stderr.write(
         `  [LLM] Judging ${i + 1}/${results.length}: ${result.testCase.id}...\n`
       );
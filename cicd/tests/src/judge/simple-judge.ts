@@ -2,31 +2,52 @@
  * Simple Judge - Fast, deterministic verification based on:
  * 1. Exit codes (all steps must return 0)
  * 2. Pattern matching (expected patterns found, rejected patterns absent)
- * 3. Error pattern detection in logs
+ * 3. Structured JSON assertions
+ * 4. Error pattern detection in logs
  */
 
 import { TestResult, Judgment } from '../types.js';
 import { ERROR_PATTERNS, ERROR_EXCLUSIONS } from '../config.js';
+import { getJudgedSteps } from './judged-steps.js';
 
 export class SimpleJudge {
   /**
    * Judge a single test result.
    */
   judge(result: TestResult): Judgment {
+    if (result.skipReason) {
+      return {
+        testId: result.testCase.id,
+        pass: false,
+        reason: `Skipped: ${result.skipReason}`,
+      };
+    }
+
     const reasons: string[] = [];
+    const steps = getJudgedSteps(result);
     let pass = true;
 
     // Check 1: All steps exit code 0
-    const failedSteps = result.steps.filter((s) => s.exitCode !== 0);
+    const failedSteps = steps.filter((s) => s.status === 'failed' && s.exitCode !== 0);
     if (failedSteps.length > 0) {
       pass = false;
       reasons.push(
-        `${failedSteps.length} step(s) failed with non-zero exit code: ${failedSteps.map((s) => `${s.name}(${s.exitCode})`).join(', ')}`
+        `${failedSteps.length} step(s) failed with non-zero exit code: ${failedSteps
+          .map((s) => `${s.name}(${s.exitCode}${s.attempts ? ` after ${s.attempts.length} attempts` : ''})`)
+          .join(', ')}`
+      );
+    }
+
+    const notRunSteps = steps.filter((s) => s.status === 'not-run');
+    if (notRunSteps.length > 0) {
+      pass = false;
+      reasons.push(
+        `${notRunSteps.length} step(s) not run: ${notRunSteps.map((s) => s.name).join(', ')}`
       );
     }
 
     // Check 2: Expected patterns found
-    for (const step of result.steps) {
+    for (const step of steps) {
       if (step.patternMatches) {
         const missing = step.patternMatches.expected.filter((p) => !p.found);
         if (missing.length > 0) {
@@ -47,8 +68,41 @@ export class SimpleJudge {
       }
     }
 
-    // Check 4: No error patterns in logs
-    const combinedLogs = result.logs + '\n' + result.steps.map((s) => s.stdout + s.stderr).join('\n');
+    // Check 4: Structured assertions pass
+    for (const step of steps) {
+      for (const assertion of step.assertions ?? []) {
+        if (assertion.pass) continue;
+        pass = false;
+        const detail = assertion.message
+          ?? `expected ${JSON.stringify(assertion.expected)}, got ${JSON.stringify(assertion.actual) ?? 'undefined'}`;
+        reasons.push(
+          `Step "${step.name}" assertion failed: ${assertion.path} ${assertion.operator} (${detail})`
+        );
+      }
+    }
+
+    // Required captures present
+    for (const step of steps) {
+      if (step.captureErrors?.length) {
+        pass = false;
+        reasons.push(
+          `Step "${step.name}" missing required captures: ${step.captureErrors.join(', ')}`
+        );
+      }
+    }
+
+    // Snapshot steps match their golden files
+    for (const step of steps) {
+      if (step.snapshot && !step.snapshot.pass) {
+        pass = false;
+        reasons.push(
+          `Step "${step.name}" output differs from snapshot ${step.snapshot.file}:\n${step.snapshot.diff}`
+        );
+      }
+    }
+
+    // Check 5: No error patterns in logs
+    const combinedLogs = result.logs + '\n' + steps.map((s) => s.stdout + s.stderr).join('\n');
     
     for (const pattern of ERROR_PATTERNS) {
       if (pattern.test(combinedLogs)) {
@@ -62,12 +116,18 @@ export class SimpleJudge {
       }
     }
 
+    // Conditionally skipped steps do not fail a test but are called out
+    const skippedSteps = steps.filter((s) => s.status === 'skipped');
+    const skippedInfo = skippedSteps.length > 0
+      ? ` (${skippedSteps.length} step(s) skipped by conditions: ${skippedSteps.map((s) => s.name).join(', ')})`
+      : '';
+
     return {
       testId: result.testCase.id,
       pass,
       reason: pass
-        ? 'All steps passed with exit code 0, patterns matched, no errors'
-        : reasons.join('; '),
+        ? `All steps passed with exit code 0, patterns and assertions matched, no errors${skippedInfo}`
+        : reasons.join('; ') + skippedInfo,
     };
   }
 
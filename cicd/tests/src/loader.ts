@@ -1,48 +1,134 @@
 /**
  * Test case loader - reads YAML test definitions and provides
  * filtering, sorting, and grouping capabilities.
+ *
+ * Files are checked by the validator (the rules of the `validate` command)
+ * before they are loaded, so normalization can rely on valid input.
  */
 
 import { readFileSync } from 'fs';
 import { glob } from 'glob';
 import yaml from 'js-yaml';
 import path from 'path';
-import { TestCase, TestStep } from './types.js';
+import { TestCase, TestStep, SuiteHooks, HttpRequest, Condition } from './types.js';
 import { SUITES, CONFIG } from './config.js';
+import { CONDITION_KINDS, CONDITION_OPERATORS } from './conditions.js';
+import { expandMatrix, expandMatrixDependencies } from './matrix.js';
+import { findCycles, findMissingDependencies } from './dependency-graph.js';
+import { TestValidator, TestValidationError, SUITE_FILE } from './validator.js';
+
+/** A string map as written in YAML; values are stringified on load */
+type YamlStringMap = Record<string, string | number | boolean | null>;
+
+/** A `when` / `skipIf` condition as written in YAML */
+type YamlCondition =
+  | string
+  | (Omit<Condition, 'equals' | 'notEquals'> & {
+      equals?: string | number | boolean;
+      notEquals?: string | number | boolean;
+    });
+
+/**
+ * A step that passed `testcase.schema.json#/definitions/step`.
+ */
+type YamlStep = Omit<TestStep, 'request' | 'env' | 'when' | 'skipIf'> & {
+  request?: Omit<HttpRequest, 'headers'> & { headers?: YamlStringMap };
+  env?: YamlStringMap;
+  when?: YamlCondition | YamlCondition[];
+  skipIf?: YamlCondition | YamlCondition[];
+};
+
+/**
+ * A test case that passed `testcase.schema.json`, before defaults.
+ */
+type YamlTestCase = Pick<
+  TestCase,
+  'id' | 'name' | 'suite' | 'goal' | 'cwd' | 'shell' | 'failFast' | 'judgeHooks' | 'exports' | 'exportAs' | 'secrets' | 'artifacts'
+> &
+  Partial<Pick<TestCase, 'priority' | 'timeout' | 'dependencies' | 'criteria'>> &
+  Pick<YamlStep, 'env' | 'when' | 'skipIf'> & {
+    tags?: (string | number | boolean)[];
+    steps: YamlStep[];
+    teardown?: YamlStep[];
+    matrix?: Record<string, (string | number | boolean)[]>;
+  };
+
+/**
+ * A `_suite.yml` file that passed `suite.schema.json`, before defaults.
+ */
+type YamlSuiteHooks = Pick<SuiteHooks, 'suite'> & {
+  timeout?: number;
+  beforeAll?: YamlStep[];
+  afterAll?: YamlStep[];
+};
 
 /**
  * Loads and manages test case definitions from YAML files.
  */
 export class TestLoader {
   private testcasesDir: string;
+  private validator: TestValidator;
 
   constructor(testcasesDir: string) {
     this.testcasesDir = testcasesDir;
+    this.validator = new TestValidator(testcasesDir);
   }
 
   /**
-   * Load all test cases from the testcases directory.
+   * Load all test cases from the testcases directory. Matrix test cases are
+   * expanded into one test case per combination. Throws a
+   * TestValidationError if any file is invalid.
    */
   async loadAll(): Promise<TestCase[]> {
     const pattern = path.join(this.testcasesDir, '**/*.yml');
-    const files = await glob(pattern);
+    const files = (await glob(pattern)).filter((f) => path.basename(f) !== SUITE_FILE).sort();
+    this.validate(files);
 
     const testCases: TestCase[] = [];
 
     for (const file of files) {
-      try {
-        const content = readFileSync(file, 'utf-8');
-        const raw = yaml.load(content) as Record<string, unknown>;
-        const testCase = this.validateAndNormalize(raw, file);
-        if (testCase) {
-          testCases.push(testCase);
-        }
-      } catch (error) {
-        console.error(`Failed to load ${file}:`, error);
+      const raw = yaml.load(readFileSync(file, 'utf-8')) as YamlTestCase;
+      const testCase = this.normalizeTestCase(raw, file);
+      if (raw.matrix === undefined) {
+        testCases.push(testCase);
+      } else {
+        testCases.push(...expandMatrix(testCase, raw.matrix));
       }
     }
 
-    return testCases;
+    return expandMatrixDependencies(testCases);
+  }
+
+  /**
+   * Load suite-level beforeAll/afterAll hooks from `_suite.yml` files,
+   * keyed by suite name. Throws a TestValidationError if any file is
+   * invalid.
+   */
+  async loadSuiteHooks(): Promise<Map<string, SuiteHooks>> {
+    const pattern = path.join(this.testcasesDir, '**', SUITE_FILE);
+    const files = (await glob(pattern)).sort();
+    this.validate(files);
+
+    const hooks = new Map<string, SuiteHooks>();
+
+    for (const file of files) {
+      const raw = yaml.load(readFileSync(file, 'utf-8')) as YamlSuiteHooks;
+      const suiteHooks = this.normalizeSuiteHooks(raw);
+      hooks.set(suiteHooks.suite, suiteHooks);
+    }
+
+    return hooks;
+  }
+
+  /**
+   * Check files with the same rules as `validate`. Warnings (such as
+   * unknown fields) do not stop loading.
+   */
+  private validate(files: string[]): void {
+    const errors = this.validator.validateFiles(files).filter((issue) => issue.severity === 'error');
+    if (errors.length > 0) {
+      throw new TestValidationError(errors);
+    }
   }
 
   /**
@@ -69,9 +155,23 @@ export class TestLoader {
     return all.filter((tc) => tc.tags?.includes(tag));
   }
 
+  /**
+   * Check the dependency graph: every dependency must name a loaded test and
+   * dependencies must not form a cycle. Returns one message per problem.
+   */
+  checkDependencies(testCases: TestCase[]): string[] {
+    return [
+      ...findMissingDependencies(testCases).map(
+        ({ testId, dependency }) => `${testId} depends on unknown test ${dependency}`
+      ),
+      ...findCycles(testCases).map((cycle) => `Dependency cycle: ${cycle.join(' -> ')}`),
+    ];
+  }
+
   /**
    * Sort test cases by dependencies using topological sort.
    * Tests with lower priority numbers run first within dependency constraints.
+   * Expects a graph that passed `checkDependencies`.
    */
   sortByDependencies(testCases: TestCase[]): TestCase[] {
     const sorted: TestCase[] = [];
@@ -102,7 +202,8 @@ export class TestLoader {
 
   /**
    * Resolve all dependencies for a filtered set of test cases.
-   * Handles cross-suite dependencies by looking up from the full test set.
+   * Handles cross-suite dependencies by looking up from the full test set,
+   * which must have passed `checkDependencies`.
    */
   resolveDependencies(
     filteredTests: TestCase[],
@@ -118,8 +219,7 @@ export class TestLoader {
 
       const test = allTestsMap.get(testId);
       if (!test) {
-        process.stderr.write(`[WARN] Dependency ${testId} not found\n`);
-        return;
+        throw new Error(`Dependency ${testId} not found`);
       }
 
       for (const depId of test.dependencies) {
@@ -170,61 +270,123 @@ export class TestLoader {
   }
 
   /**
-   * Validate and normalize a raw YAML object into a TestCase.
+   * Normalize a validated test case, applying defaults.
    */
-  private validateAndNormalize(
-    raw: Record<string, unknown>,
-    filePath: string
-  ): TestCase | null {
-    if (!raw.id || typeof raw.id !== 'string') {
-      console.error(`${filePath}: missing or invalid 'id' field`);
-      return null;
-    }
-    if (!raw.name || typeof raw.name !== 'string') {
-      console.error(`${filePath}: missing or invalid 'name' field`);
-      return null;
-    }
-    if (!raw.suite || typeof raw.suite !== 'string') {
-      console.error(`${filePath}: missing or invalid 'suite' field`);
-      return null;
-    }
-    if (!raw.steps || !Array.isArray(raw.steps) || raw.steps.length === 0) {
-      console.error(`${filePath}: missing or empty 'steps' array`);
-      return null;
-    }
+  private normalizeTestCase(raw: YamlTestCase, filePath: string): TestCase {
+    return {
+      id: raw.id,
+      name: raw.name,
+      suite: raw.suite,
+      priority: raw.priority ?? 1,
+      timeout: raw.timeout ?? CONFIG.defaultTimeout,
+      dependencies: raw.dependencies ?? [],
+      tags: (raw.tags ?? []).map(String),
+      steps: this.normalizeSteps(raw.steps),
+      goal: raw.goal,
+      criteria: raw.criteria ?? '',
+      env: this.normalizeEnv(raw.env),
+      cwd: raw.cwd,
+      shell: raw.shell,
+      failFast: raw.failFast,
+      teardown: raw.teardown && this.normalizeSteps(raw.teardown),
+      judgeHooks: raw.judgeHooks === true,
+      exports: raw.exports,
+      exportAs: raw.exportAs,
+      secrets: raw.secrets,
+      artifacts: raw.artifacts,
+      when: this.normalizeConditions(raw.when),
+      skipIf: this.normalizeConditions(raw.skipIf),
+      sourceFile: filePath,
+    };
+  }
 
-    const steps: TestStep[] = [];
-    for (const step of raw.steps) {
-      if (!step.name || typeof step.name !== 'string') {
-        console.error(`${filePath}: step missing 'name' field`);
-        return null;
-      }
-      if (!step.command || typeof step.command !== 'string') {
-        console.error(`${filePath}: step '${step.name}' missing 'command' field`);
-        return null;
-      }
+  /**
+   * Normalize a validated list of steps.
+   */
+  private normalizeSteps(rawSteps: YamlStep[]): TestStep[] {
+    return rawSteps.map((step) => ({
+      name: step.name,
+      command: step.command,
+      request: step.request && this.normalizeRequest(step.request),
+      mcp: step.mcp && { tool: step.mcp.tool, arguments: step.mcp.arguments },
+      timeout: step.timeout,
+      expectPatterns: step.expectPatterns,
+      rejectPatterns: step.rejectPatterns,
+      assert: step.assert,
+      capture: step.capture,
+      retries: step.retries ? step.retries : undefined,
+      retryInterval: step.retryInterval,
+      until: step.until,
+      continueOnError: step.continueOnError === true ? true : undefined,
+      env: this.normalizeEnv(step.env),
+      cwd: step.cwd,
+      shell: step.shell,
+      background: step.background === true ? true : undefined,
+      ready: step.ready,
+      when: this.normalizeConditions(step.when),
+      skipIf: this.normalizeConditions(step.skipIf),
+      snapshot: step.snapshot === true ? true : undefined,
+      normalize: step.normalize,
+    }));
+  }
 
-      steps.push({
-        name: step.name,
-        command: step.command,
-        timeout: typeof step.timeout === 'number' ? step.timeout : undefined,
-        expectPatterns: Array.isArray(step.expectPatterns) ? step.expectPatterns : undefined,
-        rejectPatterns: Array.isArray(step.rejectPatterns) ? step.rejectPatterns : undefined,
-        capture: typeof step.capture === 'object' && step.capture !== null ? step.capture : undefined,
-      });
+  /**
+   * Normalize a `when` / `skipIf` value (one condition or a list) into a
+   * list of conditions. Plain strings are shell commands.
+   */
+  private normalizeConditions(raw: YamlCondition | YamlCondition[] | undefined): Condition[] | undefined {
+    if (raw === undefined) return undefined;
+
+    return (Array.isArray(raw) ? raw : [raw]).map((entry): Condition => {
+      if (typeof entry === 'string') return { command: entry };
+      const kind = CONDITION_KINDS.find((k) => entry[k] !== undefined)!;
+      const operator = CONDITION_OPERATORS.find((op) => entry[op] !== undefined);
+      return {
+        [kind]: entry[kind],
+        ...(operator && { [operator]: String(entry[operator]) }),
+      };
+    });
+  }
+
+  /**
+   * Normalize a `request:` block.
+   */
+  private normalizeRequest(raw: NonNullable<YamlStep['request']>): HttpRequest {
+    return {
+      method: raw.method?.toUpperCase(),
+      url: raw.url,
+      headers: this.normalizeEnv(raw.headers),
+      body: raw.body,
+      timeout: raw.timeout,
+      expectStatus: raw.expectStatus,
+      expectJson: raw.expectJson,
+    };
+  }
+
+  /**
+   * Normalize a string map such as `env:` or request headers, stringifying
+   * scalar values (YAML reads `PORT: 3000` as a number).
+   */
+  private normalizeEnv(raw: YamlStringMap | undefined): Record<string, string> | undefined {
+    if (raw === undefined) {
+      return undefined;
+    }
+    const env: Record<string, string> = {};
+    for (const [key, value] of Object.entries(raw)) {
+      env[key] = String(value ?? '');
     }
+    return env;
+  }
 
+  /**
+   * Normalize a validated `_suite.yml` object into SuiteHooks.
+   */
+  private normalizeSuiteHooks(raw: YamlSuiteHooks): SuiteHooks {
     return {
-      id: raw.id as string,
-      name: raw.name as string,
-      suite: raw.suite as string,
-      priority: typeof raw.priority === 'number' ? raw.priority : 1,
-      timeout: typeof raw.timeout === 'number' ? raw.timeout : CONFIG.defaultTimeout,
-      dependencies: Array.isArray(raw.dependencies) ? raw.dependencies : [],
-      tags: Array.isArray(raw.tags) ? raw.tags.map(String) : [],
-      steps,
-      goal: typeof raw.goal === 'string' ? raw.goal : undefined,
-      criteria: typeof raw.criteria === 'string' ? raw.criteria : '',
+      suite: raw.suite,
+      timeout: raw.timeout ?? CONFIG.defaultTimeout,
+      beforeAll: raw.beforeAll ? this.normalizeSteps(raw.beforeAll) : [],
+      afterAll: raw.afterAll ? this.normalizeSteps(raw.afterAll) : [],
     };
   }
 }
@@ -1,11 +1,12 @@
 /**
  * LogCollector - Captures docker compose logs with text markers for precise
- * test boundary extraction.
+ * test boundary extraction. While active it also samples `docker stats` for
+ * the compose containers.
  *
  * Marker format: ===TEST:{TEST_ID}:{START|END}:{ISO_TIMESTAMP}===
  */
 
-import { spawn, ChildProcess, execSync } from 'child_process';
+import { spawn, ChildProcess, execSync, execFile } from 'child_process';
 import {
   createWriteStream,
   WriteStream,
@@ -18,12 +19,42 @@ import {
 } from 'fs';
 import path from 'path';
 import { CONFIG } from './config.js';
+import { secretMasker } from './secrets.js';
+import { ContainerStats } from './types.js';
+import { testFileName } from './matrix.js';
 
 interface TestMarkerState {
   startWritten: boolean;
   endWritten: boolean;
 }
 
+interface ContainerSample {
+  time: number;
+  name: string;
+  cpuPercent: number;
+  memory: number;
+}
+
+const MEMORY_UNITS: Record<string, number> = {
+  B: 1,
+  kB: 1000,
+  KB: 1000,
+  KiB: 1024,
+  MB: 1000 ** 2,
+  MiB: 1024 ** 2,
+  GB: 1000 ** 3,
+  GiB: 1024 ** 3,
+};
+
+/**
+ * Parse a `docker stats` memory value such as "12.5MiB" into bytes.
+ */
+function parseMemory(value: string): number {
+  const match = value.trim().match(/^([\d.]+)\s*([a-zA-Z]+)$/);
+  if (!match) return 0;
+  return Math.round(parseFloat(match[1]) * (MEMORY_UNITS[match[2]] ?? 1));
+}
+
 export class LogCollector {
   private process: ChildProcess | null = null;
   private sessionFile: string;
@@ -34,10 +65,15 @@ export class LogCollector {
   private writeQueue: Promise<void> = Promise.resolve();
   private lineBuffer: string = '';
   private outputDir: string;
+  private attempt: number;
+  private statsTimer: NodeJS.Timeout | null = null;
+  private statsInFlight: boolean = false;
+  private containerSamples: ContainerSample[] = [];
 
-  constructor(dockerComposeDir: string, outputDir: string) {
+  constructor(dockerComposeDir: string, outputDir: string, attempt: number = 1) {
     this.dockerComposeDir = dockerComposeDir;
     this.outputDir = outputDir;
+    this.attempt = attempt;
     this.sessionFile = `/tmp/${CONFIG.sessionPrefix}-${Date.now()}.log`;
   }
 
@@ -84,6 +120,7 @@ export class LogCollector {
 
       setTimeout(() => {
         if (this.isRunning) {
+          this.startStatsSampling();
           resolve();
         } else {
           reject(new Error('Log collector failed to start'));
@@ -93,6 +130,11 @@ export class LogCollector {
   }
 
   async stop(): Promise<void> {
+    if (this.statsTimer) {
+      clearInterval(this.statsTimer);
+      this.statsTimer = null;
+    }
+
     if (!this.process || !this.isRunning) {
       return;
     }
@@ -156,6 +198,15 @@ export class LogCollector {
     this.queueWrite(`===TEST:${testId}:END:${timestamp}===\n`);
   }
 
+  /**
+   * Wait until every queued write (log lines and markers) has reached the
+   * session file. Call before extracting logs so a test's END marker is
+   * present even while other tests keep writing.
+   */
+  async flush(): Promise<void> {
+    await this.writeQueue;
+  }
+
   extractTestLogs(testId: string): string {
     const outputPath = this.getTestLogPath(testId);
 
@@ -187,7 +238,7 @@ export class LogCollector {
         maxBuffer: 10 * 1024 * 1024,
       });
 
-      const cleaned = this.stripAnsi(result);
+      const cleaned = secretMasker.mask(this.stripAnsi(result));
       writeFileSync(outputPath, cleaned);
     } catch {
       writeFileSync(outputPath, '');
@@ -214,6 +265,27 @@ export class LogCollector {
     }
   }
 
+  /**
+   * Summarize the `docker stats` samples taken between two times (ms since
+   * epoch), per container.
+   */
+  getContainerStats(from: number, to: number): ContainerStats[] {
+    const byName = new Map<string, ContainerSample[]>();
+    for (const sample of this.containerSamples) {
+      if (sample.time < from || sample.time > to) continue;
+      byName.set(sample.name, [...(byName.get(sample.name) ?? []), sample]);
+    }
+
+    return [...byName].map(([name, samples]) => ({
+      name,
+      samples: samples.length,
+      avgCpuPercent:
+        Math.round((samples.reduce((sum, s) => sum + s.cpuPercent, 0) / samples.length) * 100) / 100,
+      peakCpuPercent: Math.max(...samples.map((s) => s.cpuPercent)),
+      peakMemory: Math.max(...samples.map((s) => s.memory)),
+    }));
+  }
+
   isActive(): boolean {
     return this.isRunning;
   }
@@ -223,13 +295,16 @@ export class LogCollector {
   }
 
   copySessionToOutput(): string {
-    const outputPath = path.join(this.outputDir, 'session.log');
+    const outputPath = path.join(
+      this.outputDir,
+      this.attempt > 1 ? `session.attempt-${this.attempt}.log` : 'session.log'
+    );
     if (!existsSync(this.outputDir)) {
       mkdirSync(this.outputDir, { recursive: true });
     }
     try {
       const content = readFileSync(this.sessionFile, 'utf-8');
-      writeFileSync(outputPath, content);
+      writeFileSync(outputPath, secretMasker.mask(content));
     } catch {
       writeFileSync(outputPath, '');
     }
@@ -237,7 +312,7 @@ export class LogCollector {
   }
 
   private getTestLogPath(testId: string): string {
-    return path.join(this.outputDir, `${testId}.log`);
+    return path.join(this.outputDir, `${testFileName(testId, this.attempt)}.log`);
   }
 
   private processLogData(data: Buffer, isStderr: boolean): void {
@@ -248,11 +323,61 @@ export class LogCollector {
 
     if (lines.length > 0) {
       const prefix = isStderr ? '[stderr] ' : '';
-      const formatted = lines.map((l) => prefix + l).join('\n') + '\n';
+      const formatted = lines.map((l) => prefix + secretMasker.mask(l)).join('\n') + '\n';
       this.queueWrite(formatted);
     }
   }
 
+  private startStatsSampling(): void {
+    this.sampleContainerStats();
+    this.statsTimer = setInterval(
+      () => this.sampleContainerStats(),
+      CONFIG.resources.dockerStatsInterval
+    );
+    this.statsTimer.unref();
+  }
+
+  /**
+   * Take one `docker stats` sample of the running compose containers.
+   * Skipped while the previous sample is still in flight.
+   */
+  private sampleContainerStats(): void {
+    if (this.statsInFlight) return;
+    this.statsInFlight = true;
+    const time = Date.now();
+
+    execFile('docker', ['compose', 'ps', '-q'], { cwd: this.dockerComposeDir }, (err, ids) => {
+      const containerIds = err ? [] : ids.split('\n').filter(Boolean);
+      if (containerIds.length === 0) {
+        this.statsInFlight = false;
+        return;
+      }
+
+      execFile(
+        'docker',
+        ['stats', '--no-stream', '--format', '{{json .}}', ...containerIds],
+        (statsErr, output) => {
+          this.statsInFlight = false;
+          if (statsErr) return;
+
+          for (const line of output.split('\n').filter(Boolean)) {
+            try {
+              const stats = JSON.parse(line);
+              this.containerSamples.push({
+                time,
+                name: stats.Name,
+                cpuPercent: parseFloat(stats.CPUPerc) || 0,
+                memory: parseMemory(String(stats.MemUsage ?? '').split('/')[0]),
+              });
+            } catch {
+              // Ignore malformed lines
+            }
+          }
+        }
+      );
+    });
+  }
+
   private queueWrite(data: string): void {
     this.writeQueue = this.writeQueue.then(() => {
       return new Promise<void>((resolve) => {
@@ -279,8 +404,14 @@ export class LogCollector {
     }
   }
 
+  /**
+   * Escape a string for a sed basic regex between `/` delimiters. Only
+   * BRE metacharacters are escaped: in GNU sed `\+`, `\?`, `\(` and `\{`
+   * are operators, so matrix IDs such as `TC-1[lang=c++]` must keep them
+   * unescaped.
+   */
   private escapeRegex(str: string): string {
-    return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return str.replace(/[.*^$[\]\\/]/g, '\\$&');
   }
 
   private stripAnsi(str: string): string {
@@ -0,0 +1,88 @@
+/**
+ * Matrix expansion - a test case with a `matrix:` block runs once per
+ * combination of its values.
+ *
+ * Each combination becomes its own TestCase with an ID such as
+ * `TC-BUILD-001[node=20]` and `parentId` set to the original ID. Its values
+ * are available as {{variables}} in steps and are substituted into the
+ * name, goal and criteria.
+ */
+
+import { TestCase } from './types.js';
+
+/**
+ * Every combination of the matrix values, in declaration order.
+ */
+export function matrixCombinations(matrix: Record<string, unknown[]>): Record<string, string>[] {
+  let combinations: Record<string, string>[] = [{}];
+  for (const [key, values] of Object.entries(matrix)) {
+    combinations = combinations.flatMap((combination) =>
+      values.map((value) => ({ ...combination, [key]: String(value) }))
+    );
+  }
+  return combinations;
+}
+
+export function matrixId(parentId: string, values: Record<string, string>): string {
+  const params = Object.entries(values).map(([key, value]) => `${key}=${value}`);
+  return `${parentId}[${params.join(',')}]`;
+}
+
+function fillTemplate(text: string, values: Record<string, string>): string {
+  return text.replace(/\{\{(\w+)\}\}/g, (match, key) => values[key] ?? match);
+}
+
+/**
+ * Expand a test case into one test case per matrix combination.
+ */
+export function expandMatrix(testCase: TestCase, matrix: Record<string, unknown[]>): TestCase[] {
+  return matrixCombinations(matrix).map((values) => ({
+    ...testCase,
+    id: matrixId(testCase.id, values),
+    parentId: testCase.id,
+    matrix: values,
+    name: fillTemplate(testCase.name, values),
+    goal: testCase.goal && fillTemplate(testCase.goal, values),
+    criteria: fillTemplate(testCase.criteria, values),
+  }));
+}
+
+/**
+ * Point dependencies on a matrix parent ID at its expanded test cases. A
+ * matrix case only depends on the cases whose shared matrix values match
+ * its own, so `node=20` depends on `node=20`.
+ */
+export function expandMatrixDependencies(testCases: TestCase[]): TestCase[] {
+  const children = new Map<string, TestCase[]>();
+  for (const tc of testCases) {
+    if (tc.parentId) {
+      children.set(tc.parentId, [...(children.get(tc.parentId) ?? []), tc]);
+    }
+  }
+  if (children.size === 0) return testCases;
+
+  return testCases.map((tc) => ({
+    ...tc,
+    dependencies: tc.dependencies.flatMap((depId) => {
+      const expanded = children.get(depId);
+      if (!expanded) return [depId];
+      return expanded
+        .filter((dep) =>
+          Object.entries(dep.matrix ?? {}).every(
+            ([key, value]) => tc.matrix?.[key] === undefined || tc.matrix[key] === value
+          )
+        )
+        .map((dep) => dep.id);
+    }),
+  }));
+}
+
+/**
+ * File-system safe form of a test ID, for log, report and artifact paths.
+ * Matrix values can contain characters such as `/`. Reruns (attempt 2 and
+ * up) get an `.attempt-<n>` suffix so they keep the files of earlier ones.
+ */
+export function testFileName(testId: string, attempt: number = 1): string {
+  const name = testId.replace(/[^\w.\-[\]=,+@:]/g, '_');
+  return attempt > 1 ? `${name}.attempt-${attempt}` : name;
+}
@@ -0,0 +1,163 @@
+/**
+ * MCP session - one MCP server connection shared by all `mcp:` steps of a
+ * test.
+ *
+ * The server is spawned on the first tool call and closed when the test
+ * ends. Server stderr is kept so it can be added to the test's logs.
+ *
+ * Requires `@modelcontextprotocol/sdk` in the project. It is an optional
+ * peer dependency, so it is loaded at runtime only when an `mcp:` step runs.
+ */
+
+import { CONFIG } from './config.js';
+
+// Module paths are kept in variables so TypeScript does not require the
+// optional SDK to be installed to type-check the framework.
+const CLIENT_MODULE = '@modelcontextprotocol/sdk/client/index.js';
+const STDIO_MODULE = '@modelcontextprotocol/sdk/client/stdio.js';
+
+/**
+ * The SDK client members a session uses.
+ */
+interface McpClient {
+  connect(transport: McpTransport): Promise<void>;
+  callTool(
+    params: { name: string; arguments: Record<string, unknown> },
+    resultSchema: undefined,
+    options: { timeout: number }
+  ): Promise<McpToolResult>;
+  close(): Promise<void>;
+}
+
+/**
+ * The SDK stdio transport members a session uses.
+ */
+interface McpTransport {
+  stderr: NodeJS.ReadableStream | null;
+}
+
+/** The SDK client module, as loaded at runtime */
+interface McpClientModule {
+  Client: new (info: { name: string; version: string }) => McpClient;
+}
+
+/** The SDK stdio transport module, as loaded at runtime */
+interface McpStdioModule {
+  StdioClientTransport: new (params: {
+    command: string;
+    args: string[];
+    cwd: string;
+    env: Record<string, string>;
+    stderr: 'pipe';
+  }) => McpTransport;
+}
+
+/**
+ * Result of an MCP `tools/call` request.
+ */
+export interface McpToolResult {
+  content?: Array<{ type: string; text?: string; [key: string]: unknown }>;
+  structuredContent?: unknown;
+  isError?: boolean;
+}
+
+/**
+ * Convert a tool result into step output. Structured content is used when
+ * present; otherwise text content is unwrapped, parsing JSON text so the
+ * output is plain JSON instead of JSON encoded inside `content[0].text`.
+ */
+export function formatToolResult(result: McpToolResult): string {
+  if (result.structuredContent !== undefined) {
+    return JSON.stringify(result.structuredContent, null, 2);
+  }
+
+  const items = (result.content ?? []).map((item) => {
+    if (item.type !== 'text' || typeof item.text !== 'string') return item;
+    try {
+      return JSON.parse(item.text);
+    } catch {
+      return item.text;
+    }
+  });
+
+  if (items.length === 1) {
+    return typeof items[0] === 'string' ? items[0] : JSON.stringify(items[0], null, 2);
+  }
+  return JSON.stringify(items, null, 2);
+}
+
+export class McpSession {
+  private client: McpClient | null = null;
+  private stderrChunks: string[] = [];
+  private cwd: string;
+  private env: NodeJS.ProcessEnv;
+
+  constructor(cwd: string, env: NodeJS.ProcessEnv) {
+    this.cwd = cwd;
+    this.env = env;
+  }
+
+  private async connect(): Promise<void> {
+    let sdk: McpClientModule & McpStdioModule;
+    try {
+      const [clientModule, stdioModule] = await Promise.all([
+        import(CLIENT_MODULE) as Promise<McpClientModule>,
+        import(STDIO_MODULE) as Promise<McpStdioModule>,
+      ]);
+      sdk = {
+        Client: clientModule.Client,
+        StdioClientTransport: stdioModule.StdioClientTransport,
+      };
+    } catch {
+      throw new Error(
+        'mcp steps require @modelcontextprotocol/sdk (npm install @modelcontextprotocol/sdk)'
+      );
+    }
+
+    const serverCommand = process.env.MCP_SERVER_COMMAND || CONFIG.mcp.serverCommand;
+    const [cmd, ...cmdArgs] = serverCommand.split(' ');
+
+    const transport = new sdk.StdioClientTransport({
+      command: cmd,
+      args: cmdArgs,
+      cwd: this.cwd,
+      env: { ...this.env } as Record<string, string>,
+      stderr: 'pipe',
+    });
+    transport.stderr?.on('data', (data: Buffer) => {
+      this.stderrChunks.push(data.toString());
+    });
+
+    const client = new sdk.Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(transport);
+    this.client = client;
+  }
+
+  async callTool(
+    tool: string,
+    args: Record<string, unknown>,
+    timeout: number
+  ): Promise<McpToolResult> {
+    if (!this.client) {
+      await this.connect();
+    }
+    return this.client!.callTool({ name: tool, arguments: args }, undefined, { timeout });
+  }
+
+  /**
+   * Everything the server wrote to stderr so far.
+   */
+  getStderr(): string {
+    return this.stderrChunks.join('');
+  }
+
+  async close(): Promise<void> {
+    if (!this.client) return;
+    try {
+      await this.client.close();
+    } catch {
+      // Ignore close errors
+    }
+    this.client = null;
+  }
+}
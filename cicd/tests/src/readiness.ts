@@ -0,0 +1,81 @@
+/**
+ * Readiness probes for background steps.
+ *
+ * A probe waits until a background process is ready: a pattern appears in
+ * its output, a TCP port accepts connections, or a URL answers with a 2xx
+ * or 3xx status. Waiting ends early if the process exits.
+ */
+
+import net from 'net';
+import axios from 'axios';
+import { ReadinessProbe } from './types.js';
+import { BackgroundProcess } from './command-runner.js';
+
+const DEFAULT_INTERVAL = 500;
+
+function checkPort(host: string, port: number, timeout: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    const socket = net.connect({ host, port });
+    const done = (ready: boolean) => {
+      socket.destroy();
+      resolve(ready);
+    };
+    socket.setTimeout(timeout, () => done(false));
+    socket.once('connect', () => done(true));
+    socket.once('error', () => done(false));
+  });
+}
+
+async function checkUrl(url: string, timeout: number): Promise<boolean> {
+  try {
+    const response = await axios.get(url, { timeout, validateStatus: () => true });
+    return response.status >= 200 && response.status < 400;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Describe a probe for progress output, e.g. "port 3000".
+ */
+export function describeProbe(probe: ReadinessProbe): string {
+  if (probe.url) return `url ${probe.url}`;
+  if (probe.port !== undefined) return `port ${probe.host ?? 'localhost'}:${probe.port}`;
+  return `pattern /${probe.pattern}/`;
+}
+
+/**
+ * Wait until the probe succeeds. Returns an error message if the process
+ * exited or the probe timed out first.
+ */
+export async function waitForReady(
+  probe: ReadinessProbe,
+  proc: BackgroundProcess,
+  timeout: number
+): Promise<string | undefined> {
+  const interval = probe.interval ?? DEFAULT_INTERVAL;
+  const deadline = Date.now() + timeout;
+  const pattern = probe.pattern ? new RegExp(probe.pattern, 'i') : null;
+
+  for (;;) {
+    let ready: boolean;
+    if (pattern) {
+      const { stdout, stderr } = proc.output();
+      ready = pattern.test(stdout + '\n' + stderr);
+    } else if (probe.url) {
+      ready = await checkUrl(probe.url, interval);
+    } else {
+      ready = await checkPort(probe.host ?? 'localhost', probe.port!, interval);
+    }
+    if (ready) return undefined;
+
+    if (!proc.running) {
+      return `Process exited with code ${proc.exitCode} before ${describeProbe(probe)} was ready`;
+    }
+    if (Date.now() >= deadline) {
+      return `Not ready after ${timeout / 1000}s waiting for ${describeProbe(probe)}`;
+    }
+
+    await Promise.race([new Promise((resolve) => setTimeout(resolve, interval)), proc.exited]);
+  }
+}
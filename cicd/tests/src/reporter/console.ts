@@ -2,8 +2,9 @@
  * Console Reporter - Outputs test results to terminal with formatting.
  */
 
-import chalk from 'chalk';
-import { TestReport, TestSummary } from '../types.js';
+import chalk, { ChalkInstance } from 'chalk';
+import { TestReport, TestSummary, TestStatus } from '../types.js';
+import { formatBytes } from '../resource-sampler.js';
 
 export class ConsoleReporter {
   private formatDuration(ms: number): string {
@@ -18,13 +19,39 @@ export class ConsoleReporter {
     console.log('='.repeat(60));
 
     for (const report of reports) {
-      const status = report.pass
-        ? chalk.green.bold('[PASS]')
-        : chalk.red.bold('[FAIL]');
+      const status =
+        report.status === 'skipped'
+          ? chalk.yellow.bold('[SKIP]')
+          : report.status === 'flaky'
+            ? chalk.magenta.bold('[FLAKY]')
+            : report.pass
+            ? chalk.green.bold('[PASS]')
+            : chalk.red.bold('[FAIL]');
 
       console.log(`\n${status} ${report.testId}: ${report.name}`);
       console.log(`  Suite: ${report.suite}`);
+
+      if (report.status === 'skipped') {
+        console.log(`  ${chalk.yellow(report.reason)}`);
+        continue;
+      }
+
       console.log(`  Duration: ${this.formatDuration(report.duration)}`);
+      if (report.attempts) {
+        console.log(
+          `  Attempts: ${report.attempts.map((a) => `${a.attempt}. ${a.status}`).join(', ')}`
+        );
+      }
+      if (report.resources) {
+        console.log(
+          `  Resources: CPU ${this.formatDuration(report.resources.cpuTime)}, peak RSS ${formatBytes(report.resources.peakRss)}`
+        );
+        for (const container of report.resources.containers ?? []) {
+          console.log(
+            `    ${container.name}: CPU avg ${container.avgCpuPercent}% / peak ${container.peakCpuPercent}%, peak memory ${formatBytes(container.peakMemory)}`
+          );
+        }
+      }
 
       const simpleStatus = report.simpleJudge.pass
         ? chalk.green('PASS')
@@ -39,6 +66,44 @@ export class ConsoleReporter {
         console.log(`  ${chalk.yellow('Evidence:')} ${report.llmJudge.evidence}`);
       }
 
+      const notRun = report.steps.filter((s) => s.status === 'not-run');
+      if (notRun.length > 0) {
+        console.log(
+          `  ${chalk.yellow('Not run:')} ${notRun.map((s) => s.name).join(', ')}`
+        );
+      }
+
+      for (const step of report.steps.filter((s) => s.snapshot && !s.snapshot.pass)) {
+        console.log(`  ${chalk.yellow('Snapshot mismatch:')} ${step.name} (${step.snapshot!.file})`);
+        for (const line of step.snapshot!.diff!.split('\n')) {
+          const color = line.startsWith('+') ? chalk.green : line.startsWith('-') ? chalk.red : chalk.dim;
+          console.log(`    ${color(line)}`);
+        }
+      }
+
+      for (const step of report.steps.filter((s) => s.status === 'skipped')) {
+        console.log(`  ${chalk.yellow('Skipped step:')} ${step.name} - ${step.skipReason}`);
+      }
+
+      const cleanup = [
+        ...(report.hooks?.beforeAll ?? []),
+        ...(report.teardown ?? []),
+        ...(report.hooks?.afterAll ?? []),
+      ];
+      const failedCleanup = cleanup.filter((s) => s.status === 'failed');
+      if (failedCleanup.length > 0) {
+        console.log(
+          `  ${chalk.yellow('Hooks/teardown failed:')} ${failedCleanup.map((s) => s.name).join(', ')}`
+        );
+      }
+
+      if (report.artifacts) {
+        console.log(`  Artifacts:`);
+        for (const artifact of report.artifacts) {
+          console.log(`    ${artifact}`);
+        }
+      }
+
       if (report.logFile) {
         console.log(`  Log file: ${report.logFile}`);
       }
@@ -53,24 +118,91 @@ export class ConsoleReporter {
       `Total: ${summary.total} | ` +
         passColor(`Passed: ${summary.passed}`) +
         ` | ` +
-        chalk.red(`Failed: ${summary.failed}`)
+        chalk.red(`Failed: ${summary.failed}`) +
+        ` | ` +
+        chalk.yellow(`Skipped: ${summary.skipped}`) +
+        (summary.flaky > 0 ? ` | ` + chalk.magenta(`Flaky: ${summary.flaky}`) : '')
     );
 
+    const executed = summary.total - summary.skipped;
     console.log(
-      `  Simple Judge: ${summary.simple.passed}/${summary.total} passed`
+      `  Simple Judge: ${summary.simple.passed}/${executed} passed`
     );
-    console.log(`  LLM Judge: ${summary.llm.passed}/${summary.total} passed`);
+    console.log(`  LLM Judge: ${summary.llm.passed}/${executed} passed`);
+    for (const group of summary.matrix ?? []) {
+      console.log(
+        `  ${group.parentId} (matrix): ${group.passed}/${group.tests.length} passed` +
+          (group.flaky > 0 ? `, ${group.flaky} flaky` : '') +
+          (group.skipped > 0 ? `, ${group.skipped} skipped` : '')
+      );
+    }
     console.log(`Duration: ${this.formatDuration(summary.duration)}`);
     console.log(`Output: ${summary.runId}`);
 
     console.log('\n' + '='.repeat(60));
-    if (summary.failed === 0) {
-      console.log(chalk.green.bold('All tests passed!'));
+    if (summary.interrupted) {
+      console.log(
+        chalk.red.bold(`Run interrupted: ${summary.interruptReason}`) +
+          ` (${summary.notRun?.length ?? 0} test(s) not run)`
+      );
+    }
+    const flakyInfo = summary.flaky > 0 ? ` (${summary.flaky} flaky)` : '';
+    if (summary.failed === 0 && summary.skipped === 0) {
+      console.log(chalk.green.bold(`All tests passed!${flakyInfo}`));
+    } else if (summary.failed === 0) {
+      console.log(
+        chalk.yellow.bold(`No failures, ${summary.skipped} test(s) skipped.${flakyInfo}`)
+      );
     } else {
+      const skippedInfo = summary.skipped > 0 ? `, ${summary.skipped} skipped` : '';
       console.log(
-        chalk.red.bold(`${summary.failed} test(s) failed.`)
+        chalk.red.bold(`${summary.failed} test(s) failed${skippedInfo}.`)
       );
     }
     console.log('='.repeat(60) + '\n');
   }
+
+  /**
+   * Short report of a watch-mode run: one line per test, with the status
+   * it had in the previous run when that changed.
+   */
+  reportDelta(summary: TestSummary, reports: TestReport[], previous: Map<string, TestStatus>): void {
+    const colors: Record<TestStatus, ChalkInstance> = {
+      passed: chalk.green,
+      failed: chalk.red,
+      skipped: chalk.yellow,
+      flaky: chalk.magenta,
+    };
+    const labels: Record<TestStatus, string> = {
+      passed: '[PASS]',
+      failed: '[FAIL]',
+      skipped: '[SKIP]',
+      flaky: '[FLAKY]',
+    };
+
+    console.log('');
+    for (const report of reports) {
+      const before = previous.get(report.testId);
+      const change =
+        before === undefined
+          ? previous.size > 0 ? chalk.dim(' (new)') : ''
+          : before !== report.status
+            ? ` (was ${colors[before](before)})`
+            : '';
+      console.log(
+        `${colors[report.status].bold(labels[report.status])} ${report.testId}${change}`
+      );
+      if (report.status === 'failed') {
+        console.log(`  ${chalk.dim(report.reason)}`);
+      }
+    }
+
+    const color = summary.failed > 0 ? chalk.red : chalk.green;
+    console.log(
+      color.bold(`${summary.passed}/${summary.total} passed`) +
+        (summary.failed > 0 ? `, ${summary.failed} failed` : '') +
+        (summary.skipped > 0 ? `, ${summary.skipped} skipped` : '') +
+        ` in ${this.formatDuration(summary.duration)}`
+    );
+  }
 }
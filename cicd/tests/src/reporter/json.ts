@@ -2,10 +2,21 @@
  * JSON Reporter - Outputs test results as JSON files.
  */
 
-import { writeFileSync, mkdirSync, existsSync } from 'fs';
+import { writeFileSync, readFileSync, mkdirSync, existsSync, cpSync } from 'fs';
 import { hostname } from 'os';
 import path from 'path';
-import { TestResult, TestReport, TestSummary, Judgment, StepReportEntry } from '../types.js';
+import {
+  TestResult,
+  TestReport,
+  TestSummary,
+  TestStatus,
+  Judgment,
+  StepResult,
+  StepReportEntry,
+  ExportedVariable,
+  TestAttemptEntry,
+} from '../types.js';
+import { testFileName } from '../matrix.js';
 
 export class JsonReporter {
   private outputDir: string;
@@ -17,12 +28,38 @@ export class JsonReporter {
     }
   }
 
+  private toStepEntry(step: StepResult): StepReportEntry {
+    return {
+      name: step.name,
+      command: step.command,
+      status: step.status,
+      skipReason: step.skipReason,
+      exitCode: step.exitCode,
+      duration: step.duration,
+      stdout: step.stdout,
+      stderr: step.stderr,
+      pass: step.status === 'passed',
+      assertions: step.assertions,
+      attempts: step.attempts,
+      response: step.response,
+      captureErrors: step.captureErrors,
+      resources: step.resources,
+      snapshot: step.snapshot,
+    };
+  }
+
+  /**
+   * Build the reports and summary of a run. `previousAttempts` holds the
+   * reports of earlier executions of rerun tests; their results and
+   * judgments here are those of the last attempt.
+   */
   generateReports(
     results: TestResult[],
     simpleJudgments: Judgment[],
     llmJudgments: Judgment[],
     startTime: Date,
-    suite: string
+    suite: string,
+    previousAttempts: Map<string, TestReport[]> = new Map()
   ): { summary: TestSummary; reports: TestReport[] } {
     const endTime = new Date();
     const duration = endTime.getTime() - startTime.getTime();
@@ -42,37 +79,55 @@ export class JsonReporter {
         reason: 'No judgment',
       };
 
-      const pass = simple.pass && llm.pass;
+      const pass = !result.skipReason && simple.pass && llm.pass;
+      const status: TestStatus = result.skipReason ? 'skipped' : pass ? 'passed' : 'failed';
 
-      const steps: StepReportEntry[] = result.steps.map((step) => ({
-        name: step.name,
-        command: step.command,
-        exitCode: step.exitCode,
-        duration: step.duration,
-        stdout: step.stdout,
-        stderr: step.stderr,
-        pass: step.exitCode === 0,
-      }));
+      const steps = result.steps.map((step) => this.toStepEntry(step));
+      const teardown = result.teardown?.map((step) => this.toStepEntry(step));
+      const resources = this.summarizeResources(result);
+      const hooks = result.hooks && {
+        beforeAll: result.hooks.beforeAll?.map((step) => this.toStepEntry(step)),
+        afterAll: result.hooks.afterAll?.map((step) => this.toStepEntry(step)),
+      };
 
-      return {
+      const report: TestReport = {
         testId: result.testCase.id,
         name: result.testCase.name,
         suite: result.testCase.suite,
+        parentId: result.testCase.parentId,
+        matrix: result.testCase.matrix,
+        status,
         pass,
-        reason: pass
-          ? 'Both judges passed'
-          : `Simple: ${simple.reason}; LLM: ${llm.reason}`,
+        reason: result.skipReason
+          ? `Skipped: ${result.skipReason}`
+          : pass
+            ? 'Both judges passed'
+            : `Simple: ${simple.reason}; LLM: ${llm.reason}`,
         duration: result.totalDuration,
         steps,
+        teardown,
+        hooks,
+        resources,
+        artifacts: result.artifacts,
         logFile: result.logFile,
         simpleJudge: simple,
         llmJudge: llm,
       };
+
+      const previous = previousAttempts.get(report.testId);
+      if (previous) {
+        report.attempts = [...previous, report].map((r, i) => this.toAttemptEntry(r, i + 1));
+        report.status = JsonReporter.rerunStatus(report.attempts);
+      }
+      return report;
     });
 
     const simplePassed = simpleJudgments.filter((j) => j.pass).length;
     const llmPassed = llmJudgments.filter((j) => j.pass).length;
-    const passed = reports.filter((r) => r.pass).length;
+    const passed = reports.filter((r) => r.status === 'passed').length;
+    const flaky = reports.filter((r) => r.status === 'flaky').length;
+    const skipped = reports.filter((r) => r.status === 'skipped').length;
+    const executed = results.length - skipped;
 
     const summary: TestSummary = {
       runId: startTime.toISOString(),
@@ -81,21 +136,180 @@ export class JsonReporter {
       duration,
       total: results.length,
       passed,
-      failed: results.length - passed,
+      failed: executed - passed - flaky,
+      skipped,
+      flaky,
       simple: {
         passed: simplePassed,
-        failed: results.length - simplePassed,
+        failed: executed - simplePassed,
       },
       llm: {
         passed: llmPassed,
-        failed: results.length - llmPassed,
+        failed: executed - llmPassed,
       },
       environment: {
         hostname: hostname(),
         nodeVersion: process.version,
       },
       tests: results.map((r) => r.testCase.id),
+      matrix: JsonReporter.groupMatrix(reports),
+      exports: this.collectExports(results),
+    };
+
+    return { summary, reports };
+  }
+
+  private toAttemptEntry(report: TestReport, attempt: number): TestAttemptEntry {
+    return {
+      attempt,
+      status: report.status,
+      reason: report.reason,
+      duration: report.duration,
+      steps: report.steps,
+      teardown: report.teardown,
+      artifacts: report.artifacts,
+      logFile: report.logFile,
+      simpleJudge: report.simpleJudge,
+      llmJudge: report.llmJudge,
+    };
+  }
+
+  /**
+   * Outcome of a rerun test: flaky when its attempts disagree.
+   */
+  static rerunStatus(attempts: TestAttemptEntry[]): TestStatus {
+    const executed = attempts.filter((a) => a.status !== 'skipped');
+    if (executed.length === 0) return 'skipped';
+    if (executed.every((a) => a.status === 'passed')) return 'passed';
+    if (executed.every((a) => a.status === 'failed')) return 'failed';
+    return 'flaky';
+  }
+
+  /**
+   * Total CPU time and highest peak RSS over a test's sampled steps, plus
+   * its container stats.
+   */
+  private summarizeResources(result: TestResult): TestReport['resources'] {
+    const sampled = [...result.steps, ...(result.teardown ?? [])].filter((s) => s.resources);
+    if (sampled.length === 0 && !result.containers) return undefined;
+    return {
+      cpuTime: sampled.reduce((sum, s) => sum + s.resources!.cpuTime, 0),
+      peakRss: Math.max(0, ...sampled.map((s) => s.resources!.peakRss)),
+      containers: result.containers,
+    };
+  }
+
+  /**
+   * Group the reports of expanded matrix test cases by parent ID.
+   */
+  static groupMatrix(reports: TestReport[]): TestSummary['matrix'] {
+    const groups = new Map<string, NonNullable<TestSummary['matrix']>[number]>();
+    for (const report of reports) {
+      if (!report.parentId) continue;
+      const group = groups.get(report.parentId) ?? {
+        parentId: report.parentId,
+        tests: [],
+        passed: 0,
+        failed: 0,
+        skipped: 0,
+        flaky: 0,
+      };
+      group.tests.push(report.testId);
+      group[report.status]++;
+      groups.set(report.parentId, group);
+    }
+    return groups.size > 0 ? [...groups.values()] : undefined;
+  }
+
+  /**
+   * List every exported variable with the test and step it came from and
+   * the tests that used it.
+   */
+  private collectExports(results: TestResult[]): TestSummary['exports'] {
+    const exports = new Map<string, ExportedVariable & { usedBy: string[] }>();
+    for (const result of results) {
+      for (const variable of result.exports ?? []) {
+        exports.set(`${variable.testId}.${variable.name}`, { ...variable, usedBy: [] });
+      }
+    }
+    for (const result of results) {
+      for (const variable of result.imports ?? []) {
+        exports.get(`${variable.testId}.${variable.name}`)?.usedBy.push(result.testCase.id);
+      }
+    }
+    return exports.size > 0 ? [...exports.values()] : undefined;
+  }
+
+  /**
+   * Combine the results directories of several shards into this reporter's
+   * output directory. Logs and artifacts are copied; the summaries are
+   * merged into one covering every test.
+   */
+  mergeRuns(dirs: string[]): { summary: TestSummary; reports: TestReport[] } {
+    const summaries: TestSummary[] = [];
+    const byId = new Map<string, TestReport>();
+
+    for (const dir of dirs) {
+      const summary = JSON.parse(
+        readFileSync(path.join(dir, 'summary.json'), 'utf-8')
+      ) as TestSummary;
+      summaries.push(summary);
+      for (const testId of summary.tests) {
+        if (byId.has(testId)) {
+          process.stderr.write(`[WARN] ${testId} appears in more than one run; keeping ${dir}\n`);
+        }
+        const reportPath = path.join(dir, `${testFileName(testId)}.json`);
+        byId.set(testId, JSON.parse(readFileSync(reportPath, 'utf-8')) as TestReport);
+      }
+      cpSync(dir, this.outputDir, {
+        recursive: true,
+        filter: (source) => path.resolve(source) !== path.resolve(dir, 'summary.json'),
+      });
+    }
+
+    // Counts come from the reports so a test run by two shards counts once
+    const reports = [...byId.values()];
+    const executed = reports.filter((r) => r.status !== 'skipped');
+    const passed = executed.filter((r) => r.status === 'passed').length;
+    const flaky = executed.filter((r) => r.status === 'flaky').length;
+    const simplePassed = executed.filter((r) => r.simpleJudge.pass).length;
+    const llmPassed = executed.filter((r) => r.llmJudge.pass).length;
+    const starts = summaries.map((s) => Date.parse(s.timestamp));
+    const ends = summaries.map((s) => Date.parse(s.timestamp) + s.duration);
+    const start = new Date(Math.min(...starts));
+    const suites = [...new Set(summaries.map((s) => s.suite))];
+    const exports = summaries.flatMap((s) => s.exports ?? []);
+    const interrupted = summaries.filter((s) => s.interrupted);
+
+    const summary: TestSummary = {
+      runId: start.toISOString(),
+      suite: suites.length === 1 ? suites[0] : 'all',
+      timestamp: start.toISOString(),
+      duration: Math.max(...ends) - start.getTime(),
+      total: reports.length,
+      passed,
+      failed: executed.length - passed - flaky,
+      skipped: reports.length - executed.length,
+      flaky,
+      simple: {
+        passed: simplePassed,
+        failed: executed.length - simplePassed,
+      },
+      llm: {
+        passed: llmPassed,
+        failed: executed.length - llmPassed,
+      },
+      environment: summaries[0].environment,
+      tests: [...byId.keys()],
+      mergedFrom: dirs,
+      matrix: JsonReporter.groupMatrix(reports),
+      exports: exports.length > 0 ? exports : undefined,
     };
+    if (interrupted.length > 0) {
+      summary.interrupted = true;
+      summary.interruptReason = [...new Set(interrupted.map((s) => s.interruptReason))].join('; ');
+      summary.notRun = interrupted.flatMap((s) => s.notRun ?? []);
+    }
 
     return { summary, reports };
   }
@@ -105,7 +319,7 @@ export class JsonReporter {
     writeFileSync(summaryPath, JSON.stringify(summary, null, 2));
 
     for (const report of reports) {
-      const reportPath = path.join(this.outputDir, `${report.testId}.json`);
+      const reportPath = path.join(this.outputDir, `${testFileName(report.testId)}.json`);
       writeFileSync(reportPath, JSON.stringify(report, null, 2));
     }
 
@@ -119,12 +333,16 @@ export class JsonReporter {
         testId: r.testId,
         name: r.name,
         suite: r.suite,
+        status: r.status,
         pass: r.pass,
         reason: r.reason,
         duration: r.duration,
         steps: r.steps,
+        teardown: r.teardown,
+        hooks: r.hooks,
         simpleJudge: r.simpleJudge,
         llmJudge: r.llmJudge,
+        attempts: r.attempts,
       })),
     };
     console.log(JSON.stringify(output, null, 2));
@@ -0,0 +1,138 @@
+/**
+ * Resource sampler - periodically reads /proc to measure the CPU time and
+ * peak memory of a step's process group.
+ *
+ * Steps run in their own process group, so every process whose group ID
+ * matches is counted, including children the shell starts. Values are
+ * sampled: processes that start and exit between two samples are missed,
+ * and a step that finishes before the first sample reports no usage.
+ * On systems without /proc no usage is reported.
+ */
+
+import { readdirSync, readFileSync, existsSync } from 'fs';
+import { execFileSync } from 'child_process';
+import { ResourceUsage } from './types.js';
+import { CONFIG } from './config.js';
+
+let systemUnits: { clockTicks: number; pageSize: number } | null = null;
+
+/**
+ * Kernel clock ticks per second (USER_HZ) and memory page size in bytes,
+ * read from getconf once. Falls back to 100 and 4096, the values of common
+ * x86-64 Linux builds; arm64 kernels may use 16K or 64K pages.
+ */
+function getSystemUnits(): { clockTicks: number; pageSize: number } {
+  const getconf = (name: string, fallback: number) => {
+    try {
+      const value = Number(execFileSync('getconf', [name], { encoding: 'utf-8' }).trim());
+      return value > 0 ? value : fallback;
+    } catch {
+      return fallback;
+    }
+  };
+  systemUnits ??= { clockTicks: getconf('CLK_TCK', 100), pageSize: getconf('PAGESIZE', 4096) };
+  return systemUnits;
+}
+
+interface ProcStat {
+  pgrp: number;
+  /** utime + stime in clock ticks */
+  cpuTicks: number;
+  /** Resident set size in pages */
+  rssPages: number;
+}
+
+/**
+ * Parse /proc/<pid>/stat. The command name may contain spaces, so fields
+ * are read after its closing parenthesis.
+ */
+function readProcStat(pid: string): ProcStat | null {
+  try {
+    const stat = readFileSync(`/proc/${pid}/stat`, 'utf-8');
+    const fields = stat.substring(stat.lastIndexOf(')') + 2).split(' ');
+    // fields[0] is field 3 (state) of proc(5)
+    return {
+      pgrp: Number(fields[2]),
+      cpuTicks: Number(fields[11]) + Number(fields[12]),
+      rssPages: Number(fields[21]),
+    };
+  } catch {
+    // Process exited while reading
+    return null;
+  }
+}
+
+/**
+ * Format a byte count for display, e.g. "45.2 MB".
+ */
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+}
+
+export class ResourceSampler {
+  private timer: NodeJS.Timeout | null = null;
+  private cpuTicks = new Map<string, number>();
+  private peakRssPages = 0;
+  private samples = 0;
+
+  constructor(private pgid: number) {}
+
+  static isSupported(): boolean {
+    return existsSync('/proc/self/stat');
+  }
+
+  start(): void {
+    this.sample();
+    this.timer = setInterval(() => this.sample(), CONFIG.resources.sampleInterval);
+    this.timer.unref();
+  }
+
+  /**
+   * Stop sampling and return the usage seen so far, or undefined when no
+   * sample caught the process group running (only a freshly forked process
+   * with no resident memory yet, or nothing at all).
+   */
+  stop(): ResourceUsage | undefined {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    if (this.peakRssPages === 0) return undefined;
+
+    const { clockTicks, pageSize } = getSystemUnits();
+    let ticks = 0;
+    for (const value of this.cpuTicks.values()) ticks += value;
+    return {
+      cpuTime: Math.round((ticks * 1000) / clockTicks),
+      peakRss: this.peakRssPages * pageSize,
+      samples: this.samples,
+    };
+  }
+
+  private sample(): void {
+    let pids: string[];
+    try {
+      pids = readdirSync('/proc').filter((name) => /^\d+$/.test(name));
+    } catch {
+      return;
+    }
+
+    let rssPages = 0;
+    for (const pid of pids) {
+      const stat = readProcStat(pid);
+      if (!stat || stat.pgrp !== this.pgid) continue;
+      // CPU counters only grow; keep the latest value of every process seen
+      this.cpuTicks.set(pid, Math.max(this.cpuTicks.get(pid) ?? 0, stat.cpuTicks));
+      rssPages += stat.rssPages;
+    }
+    this.peakRssPages = Math.max(this.peakRssPages, rssPages);
+    this.samples++;
+  }
+}
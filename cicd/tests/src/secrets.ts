@@ -0,0 +1,76 @@
+/**
+ * Secret masking - values of secret variables are replaced with a
+ * placeholder in everything the framework writes: progress output, step
+ * results, logs, reports and LLM prompts.
+ *
+ * A variable is secret when its name matches SECRET_PATTERNS (config.ts) or
+ * is listed in a test's `secrets:`. Values are registered when they are
+ * resolved from the environment or captured, and masked from then on.
+ */
+
+import { SECRET_PATTERNS } from './config.js';
+
+export const MASK = '***';
+
+/** Shorter values are not masked; they would hide unrelated output. */
+const MIN_SECRET_LENGTH = 4;
+
+export class SecretMasker {
+  /** Registered values, longest first so overlapping secrets mask fully */
+  private values: string[] = [];
+
+  /**
+   * Whether a variable name is secret, by pattern or by an explicit list.
+   */
+  isSecretName(name: string, secrets: string[] = []): boolean {
+    return secrets.includes(name) || SECRET_PATTERNS.some((pattern) => pattern.test(name));
+  }
+
+  register(value: string): void {
+    if (value.length < MIN_SECRET_LENGTH || this.values.includes(value)) return;
+    this.values.push(value);
+    this.values.sort((a, b) => b.length - a.length);
+  }
+
+  /**
+   * Register the values of every secret variable in an environment.
+   */
+  registerEnv(env: NodeJS.ProcessEnv, secrets: string[] = []): void {
+    for (const [name, value] of Object.entries(env)) {
+      if (value !== undefined && this.isSecretName(name, secrets)) {
+        this.register(value);
+      }
+    }
+  }
+
+  mask(text: string): string {
+    let masked = text;
+    for (const value of this.values) {
+      if (masked.includes(value)) {
+        masked = masked.split(value).join(MASK);
+      }
+    }
+    return masked;
+  }
+
+  /**
+   * Mask every string inside a value. Objects and arrays are copied.
+   */
+  maskDeep<T>(value: T): T {
+    if (typeof value === 'string') {
+      return this.mask(value) as T;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.maskDeep(item)) as T;
+    }
+    if (typeof value === 'object' && value !== null) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, this.maskDeep(item)])
+      ) as T;
+    }
+    return value;
+  }
+}
+
+/** Masker shared by the executor, log collector, judges and reporters. */
+export const secretMasker = new SecretMasker();
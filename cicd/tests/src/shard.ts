@@ -0,0 +1,119 @@
+/**
+ * Sharding - splits the resolved test list across CI machines.
+ *
+ * Tests connected by dependencies always land on the same shard, since a
+ * shard cannot see results from another one. Shards are balanced by past
+ * durations read from earlier results directories; tests without a past
+ * duration count as the average known duration (or 1 when none is known,
+ * which balances by test count).
+ */
+
+import { readFileSync, existsSync } from 'fs';
+import path from 'path';
+import { glob } from 'glob';
+import { TestCase, TestReport, TestSummary, Shard } from './types.js';
+import { testFileName } from './matrix.js';
+
+/**
+ * Parse a `--shard` value such as "2/4".
+ */
+export function parseShard(value: string): Shard | null {
+  const match = value.match(/^(\d+)\/(\d+)$/);
+  if (!match) return null;
+  const index = parseInt(match[1], 10);
+  const total = parseInt(match[2], 10);
+  if (total < 1 || index < 1 || index > total) return null;
+  return { index, total };
+}
+
+/**
+ * Read test durations from every results directory (one containing a
+ * summary.json) under `dir`. The most recent run of each test wins.
+ */
+export async function loadPastDurations(dir: string): Promise<Map<string, number>> {
+  const durations = new Map<string, number>();
+  if (!existsSync(dir)) return durations;
+
+  const runs: Array<{ dir: string; summary: TestSummary }> = [];
+  for (const file of await glob(path.join(dir, '**', 'summary.json'))) {
+    try {
+      runs.push({ dir: path.dirname(file), summary: JSON.parse(readFileSync(file, 'utf-8')) });
+    } catch {
+      // Ignore unreadable summaries
+    }
+  }
+  runs.sort((a, b) => a.summary.timestamp.localeCompare(b.summary.timestamp));
+
+  for (const run of runs) {
+    for (const testId of run.summary.tests ?? []) {
+      try {
+        const reportPath = path.join(run.dir, `${testFileName(testId)}.json`);
+        const report = JSON.parse(readFileSync(reportPath, 'utf-8')) as TestReport;
+        if (report.status !== 'skipped') {
+          durations.set(testId, report.duration);
+        }
+      } catch {
+        // Report missing; keep any earlier duration
+      }
+    }
+  }
+
+  return durations;
+}
+
+/**
+ * Group tests into sets connected by dependencies (in either direction).
+ */
+function dependencyGroups(testCases: TestCase[]): TestCase[][] {
+  const parent = new Map(testCases.map((tc) => [tc.id, tc.id]));
+  const find = (id: string): string => {
+    while (parent.get(id) !== id) id = parent.get(id)!;
+    return id;
+  };
+
+  for (const tc of testCases) {
+    for (const depId of tc.dependencies) {
+      if (parent.has(depId)) {
+        parent.set(find(tc.id), find(depId));
+      }
+    }
+  }
+
+  const groups = new Map<string, TestCase[]>();
+  for (const tc of testCases) {
+    const root = find(tc.id);
+    groups.set(root, [...(groups.get(root) ?? []), tc]);
+  }
+  return [...groups.values()];
+}
+
+/**
+ * Select the tests of one shard, keeping the input (dependency-sorted)
+ * order. Every machine computes the same split from the same inputs.
+ */
+export function selectShard(
+  testCases: TestCase[],
+  shard: Shard,
+  durations: Map<string, number>
+): TestCase[] {
+  const known = [...durations.values()];
+  const fallback = known.length > 0 ? known.reduce((a, b) => a + b, 0) / known.length : 1;
+  const weight = (tc: TestCase) => durations.get(tc.id) ?? fallback;
+
+  // Longest group first onto the least loaded shard
+  const groups = dependencyGroups(testCases)
+    .map((tests) => ({ tests, weight: tests.reduce((sum, tc) => sum + weight(tc), 0) }))
+    .sort((a, b) => b.weight - a.weight || a.tests[0].id.localeCompare(b.tests[0].id));
+
+  const loads = new Array(shard.total).fill(0);
+  const selected = new Set<string>();
+  for (const group of groups) {
+    const target = loads.indexOf(Math.min(...loads));
+    loads[target] += group.weight;
+    if (target === shard.index - 1) {
+      group.tests.forEach((tc) => selected.add(tc.id));
+    }
+  }
+
+  return testCases.filter((tc) => selected.has(tc.id));
+}
@@ -0,0 +1,150 @@
+/**
+ * Golden-file snapshots for `snapshot: true` steps.
+ *
+ * A step's stdout is normalized (timestamps, durations, UUIDs and paths are
+ * replaced with placeholders) and compared with a golden file stored in a
+ * `__snapshots__` directory next to the test's YAML. `run --update-snapshots`
+ * rewrites the golden files instead of comparing.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { SnapshotNormalizer, SnapshotResult } from './types.js';
+import { CONFIG } from './config.js';
+import { testFileName } from './matrix.js';
+
+/** Lines of unchanged output shown around each change in a diff */
+const DIFF_CONTEXT = 3;
+
+/** Above this many line pairs the diff shows the whole output as replaced */
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Golden file of a step: `<yaml dir>/__snapshots__/<TEST_ID>.<step>.txt`.
+ */
+export function snapshotPath(sourceFile: string, testId: string, stepName: string): string {
+  const step = stepName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return path.join(
+    path.dirname(sourceFile),
+    CONFIG.snapshots.dir,
+    `${testFileName(testId)}.${step || 'step'}.txt`
+  );
+}
+
+/**
+ * Replace the given paths (longest first) with their placeholders, then
+ * apply the step's normalizers, then the built-in ones.
+ */
+export function normalizeOutput(
+  text: string,
+  normalizers: SnapshotNormalizer[],
+  paths: Record<string, string>
+): string {
+  let normalized = text.replace(/\r\n/g, '\n');
+  for (const [dir, placeholder] of Object.entries(paths).sort((a, b) => b[0].length - a[0].length)) {
+    if (dir) normalized = normalized.split(dir).join(placeholder);
+  }
+  for (const { pattern, replace } of [...normalizers, ...CONFIG.snapshots.normalizers]) {
+    normalized = normalized.replace(new RegExp(pattern, 'gm'), replace);
+  }
+  return normalized.endsWith('\n') || normalized === '' ? normalized : normalized + '\n';
+}
+
+type DiffOp = { type: ' ' | '-' | '+'; line: string };
+
+/**
+ * Line edit script from `a` to `b` via a longest common subsequence.
+ */
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  if ((a.length + 1) * (b.length + 1) > MAX_DIFF_CELLS) {
+    return [
+      ...a.map((line) => ({ type: '-' as const, line })),
+      ...b.map((line) => ({ type: '+' as const, line })),
+    ];
+  }
+
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        a[i] === b[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      ops.push({ type: ' ', line: a[i++] });
+      j++;
+    } else if (i < a.length && (j === b.length || lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+      ops.push({ type: '-', line: a[i++] });
+    } else {
+      ops.push({ type: '+', line: b[j++] });
+    }
+  }
+  return ops;
+}
+
+/**
+ * Unified diff from `expected` to `actual`, or an empty string when they
+ * are equal.
+ */
+export function unifiedDiff(
+  expected: string,
+  actual: string,
+  expectedLabel: string,
+  actualLabel: string
+): string {
+  const split = (text: string) => (text === '' ? [] : text.replace(/\n$/, '').split('\n'));
+  const ops = diffLines(split(expected), split(actual));
+  const changes = ops.flatMap((op, index) => (op.type === ' ' ? [] : [index]));
+  if (changes.length === 0) return '';
+
+  const lines = [`--- ${expectedLabel}`, `+++ ${actualLabel}`];
+  let first = 0;
+  while (first < changes.length) {
+    // Changes closer than twice the context share a hunk
+    let last = first;
+    while (last + 1 < changes.length && changes[last + 1] - changes[last] <= 2 * DIFF_CONTEXT) {
+      last++;
+    }
+    const start = Math.max(0, changes[first] - DIFF_CONTEXT);
+    const end = Math.min(ops.length, changes[last] + DIFF_CONTEXT + 1);
+
+    const before = ops.slice(0, start);
+    const hunk = ops.slice(start, end);
+    const oldLength = hunk.filter((op) => op.type !== '+').length;
+    const newLength = hunk.filter((op) => op.type !== '-').length;
+    const oldStart = before.filter((op) => op.type !== '+').length + (oldLength > 0 ? 1 : 0);
+    const newStart = before.filter((op) => op.type !== '-').length + (newLength > 0 ? 1 : 0);
+
+    lines.push(`@@ -${oldStart},${oldLength} +${newStart},${newLength} @@`);
+    lines.push(...hunk.map((op) => `${op.type}${op.line}`));
+    first = last + 1;
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Compare normalized output with its golden file, or write the golden file
+ * when `update` is set. A missing golden file fails the comparison.
+ */
+export function compareSnapshot(file: string, output: string, update: boolean): SnapshotResult {
+  if (update) {
+    mkdirSync(path.dirname(file), { recursive: true });
+    writeFileSync(file, output);
+    return { file, pass: true, updated: true };
+  }
+
+  if (!existsSync(file)) {
+    return { file, pass: false, diff: 'No snapshot yet; run with --update-snapshots to create it' };
+  }
+
+  const diff = unifiedDiff(readFileSync(file, 'utf-8'), output, 'snapshot', 'output');
+  return diff ? { file, pass: false, diff } : { file, pass: true };
+}
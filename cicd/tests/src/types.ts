@@ -6,22 +6,213 @@
 // Test Case Definitions (from YAML)
 // ============================================
 
+/**
+ * Condition a retried step must satisfy before it stops retrying.
+ * - exitCode: the command exits with code 0
+ * - patterns: all expectPatterns found, no rejectPatterns found and all
+ *   assertions pass
+ * - all: both of the above (default)
+ */
+export type UntilCondition = 'exitCode' | 'patterns' | 'all';
+
+/**
+ * An HTTP request made in-process by a `request:` step.
+ */
+export interface HttpRequest {
+  /** HTTP method (default: GET) */
+  method?: string;
+  /** Request URL */
+  url: string;
+  /** Request headers */
+  headers?: Record<string, string>;
+  /** Request body; objects and arrays are sent as JSON */
+  body?: unknown;
+  /** Request timeout in ms (overrides the step timeout) */
+  timeout?: number;
+  /** Accepted status code(s) (default: any status below 400) */
+  expectStatus?: number | number[];
+  /** Expected JSON body fields, keyed by capture path (e.g. "data[name=foo].id") */
+  expectJson?: Record<string, unknown>;
+}
+
+/**
+ * Response recorded for a `request:` step.
+ */
+export interface HttpResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+/**
+ * Operators available in `assert:` entries.
+ */
+export type AssertionOperator =
+  | 'equals'
+  | 'contains'
+  | 'exists'
+  | 'gt'
+  | 'lt'
+  | 'matches'
+  | 'length';
+
+/**
+ * A structured assertion on JSON step output. `path` uses the capture path
+ * syntax; exactly one operator is set.
+ */
+export interface JsonAssertion {
+  /** Field path, e.g. "data[name=foo].id" ("$" for the whole output) */
+  path: string;
+  /** Value is deeply equal */
+  equals?: unknown;
+  /** Array contains the value, string contains the substring, or object has the key */
+  contains?: unknown;
+  /** Field is present (true) or absent (false) */
+  exists?: boolean;
+  /** Value is greater than */
+  gt?: number;
+  /** Value is less than */
+  lt?: number;
+  /** Value matches the regex */
+  matches?: string;
+  /** Array, string or object has this length */
+  length?: number;
+}
+
+/**
+ * Where a captured variable is read from.
+ * - json: a field of JSON stdout, by capture path
+ * - stdout / stderr: a regex match, or the whole trimmed stream
+ * - exitCode / duration: the step's exit code or duration in ms
+ */
+export type CaptureSource = 'json' | 'stdout' | 'stderr' | 'exitCode' | 'duration';
+
+/**
+ * A capture definition. A plain string in `capture:` is shorthand for
+ * `{ from: json, path: <string> }`.
+ */
+export interface CaptureSpec {
+  /** Source of the value (default: json) */
+  from?: CaptureSource;
+  /** Field path for json captures, e.g. "data[name=foo].id" */
+  path?: string;
+  /** Regex applied to stdout/stderr; the value is a capture group */
+  regex?: string;
+  /** Named group to use (default: group named like the variable, else the first group) */
+  group?: string;
+  /** Fail the step when the value cannot be captured */
+  required?: boolean;
+}
+
+/**
+ * An MCP tool call made by an `mcp:` step.
+ */
+export interface McpToolCall {
+  /** Tool name */
+  tool: string;
+  /** Tool arguments */
+  arguments?: Record<string, unknown>;
+}
+
+/**
+ * How to tell that a background step is ready. Exactly one of `pattern`,
+ * `port` or `url` is set.
+ */
+export interface ReadinessProbe {
+  /** Regex that must appear in the process output */
+  pattern?: string;
+  /** TCP port that must accept connections */
+  port?: number;
+  /** Host for the port probe (default: localhost) */
+  host?: string;
+  /** URL that must answer with a 2xx or 3xx status */
+  url?: string;
+  /** How long to wait in ms (default: the step timeout) */
+  timeout?: number;
+  /** Delay between checks in ms (default: 500) */
+  interval?: number;
+}
+
+/**
+ * A regex replace rule applied to step output before it is compared with
+ * its snapshot.
+ */
+export interface SnapshotNormalizer {
+  /** Regex to replace (all matches, multiline) */
+  pattern: string;
+  /** Replacement text; may use $1-style group references */
+  replace: string;
+}
+
+/**
+ * A `when` / `skipIf` condition. Exactly one of `command`, `env` or `var`
+ * is set; in YAML a plain string is shorthand for `command`.
+ */
+export interface Condition {
+  /** Shell command; true when it exits with code 0 */
+  command?: string;
+  /** Environment variable; true when set and non-empty */
+  env?: string;
+  /** Captured, exported (`ns.name`) or environment variable; true when set and non-empty, or compared below */
+  var?: string;
+  /** True when the variable equals this value */
+  equals?: string;
+  /** True when the variable is set and differs from this value */
+  notEquals?: string;
+  /** True when the variable matches this regex */
+  matches?: string;
+}
+
 /**
  * A single step within a test case.
+ * Exactly one of `command`, `request` or `mcp` is set.
  */
 export interface TestStep {
   /** Human-readable step name */
   name: string;
   /** Shell command to execute */
-  command: string;
+  command?: string;
+  /** HTTP request to send instead of a shell command */
+  request?: HttpRequest;
+  /** MCP tool to call instead of a shell command */
+  mcp?: McpToolCall;
   /** Step-specific timeout in ms (overrides test case timeout) */
   timeout?: number;
   /** Regex patterns that MUST appear in stdout/stderr */
   expectPatterns?: string[];
   /** Regex patterns that must NOT appear in stdout/stderr */
   rejectPatterns?: string[];
+  /** Structured assertions on JSON stdout */
+  assert?: JsonAssertion[];
   /** Capture variables from step output for use in later steps */
-  capture?: Record<string, string>;
+  capture?: Record<string, string | CaptureSpec>;
+  /** Extra attempts after the first one when `until` is not satisfied */
+  retries?: number;
+  /** Delay between attempts in ms */
+  retryInterval?: number;
+  /** Condition that ends retrying (default: all) */
+  until?: UntilCondition;
+  /** Keep running later steps even if this one fails (overrides failFast) */
+  continueOnError?: boolean;
+  /** Extra environment variables (merged over the test case's env) */
+  env?: Record<string, string>;
+  /** Working directory, relative to the project root */
+  cwd?: string;
+  /** Shell used to run the command (default: /bin/bash) */
+  shell?: string;
+  /** Start the command and keep it running for later steps */
+  background?: boolean;
+  /** When a background step counts as started */
+  ready?: ReadinessProbe;
+  /** Run the step only if all of these conditions hold */
+  when?: Condition[];
+  /** Skip the step if any of these conditions holds */
+  skipIf?: Condition[];
+  /** Compare stdout with a golden file next to the test's YAML */
+  snapshot?: boolean;
+  /** Extra normalizers for the snapshot, applied before the built-in ones */
+  normalize?: SnapshotNormalizer[];
 }
 
 /**
@@ -48,6 +239,50 @@ export interface TestCase {
   criteria: string;
   /** Short goal statement for LLM judge context (optional) */
   goal?: string;
+  /** Extra environment variables for every step */
+  env?: Record<string, string>;
+  /** Working directory for every step, relative to the project root */
+  cwd?: string;
+  /** Shell for every step (default: /bin/bash) */
+  shell?: string;
+  /** Stop running steps after the first failure (default: CONFIG.failFast) */
+  failFast?: boolean;
+  /** Cleanup steps that always run after `steps`, even when they fail */
+  teardown?: TestStep[];
+  /** Include teardown and suite hook results in the judges' verdicts */
+  judgeHooks?: boolean;
+  /** Captured variables made available to dependent tests as {{<id>.<name>}} */
+  exports?: string[];
+  /** Extra namespace for exported variables, usable as {{<exportAs>.<name>}} */
+  exportAs?: string;
+  /** Environment or captured variables whose values are masked in all output */
+  secrets?: string[];
+  /** Run the test only if all of these conditions hold */
+  when?: Condition[];
+  /** Skip the test if any of these conditions holds */
+  skipIf?: Condition[];
+  /** YAML file the test was loaded from */
+  sourceFile?: string;
+  /** Globs of files to keep in `<outputDir>/<TEST_ID>/artifacts/` */
+  artifacts?: string[];
+  /** ID of the matrix test case this case was expanded from */
+  parentId?: string;
+  /** Matrix values of this case, also available as {{variables}} */
+  matrix?: Record<string, string>;
+}
+
+/**
+ * Suite-level hooks, defined in a `_suite.yml` file.
+ */
+export interface SuiteHooks {
+  /** Suite the hooks belong to */
+  suite: string;
+  /** Default timeout for hook steps in ms */
+  timeout: number;
+  /** Steps run once before the first test of the suite */
+  beforeAll: TestStep[];
+  /** Steps run once after the last test of the suite */
+  afterAll: TestStep[];
 }
 
 // ============================================
@@ -62,14 +297,97 @@ export interface PatternMatch {
   found: boolean;
 }
 
+/**
+ * Result of a single `assert:` entry.
+ */
+export interface AssertionResult {
+  path: string;
+  operator: AssertionOperator;
+  expected: unknown;
+  /** Value found at the path (its length for `length` assertions) */
+  actual?: unknown;
+  pass: boolean;
+  /** Why the assertion could not be evaluated */
+  message?: string;
+}
+
+/**
+ * Outcome of a single step.
+ * - passed: exited with code 0
+ * - failed: exited with a non-zero code
+ * - not-run: never executed because an earlier step failed
+ * - skipped: not executed because of its `when` / `skipIf` conditions
+ */
+export type StepStatus = 'passed' | 'failed' | 'not-run' | 'skipped';
+
+/**
+ * Outcome of a single attempt of a retried step.
+ */
+export interface StepAttempt {
+  /** Attempt number (1-based) */
+  attempt: number;
+  /** Process exit code */
+  exitCode: number;
+  /** Attempt duration in ms */
+  duration: number;
+  /** Whether the step's `until` condition held */
+  satisfied: boolean;
+}
+
+/**
+ * Outcome of comparing a step's output with its golden file.
+ */
+export interface SnapshotResult {
+  /** Golden file path */
+  file: string;
+  /** Whether the normalized output matched (or was written) */
+  pass: boolean;
+  /** Unified diff from the golden file to the normalized output, or why there is none */
+  diff?: string;
+  /** Set when the golden file was written by --update-snapshots */
+  updated?: boolean;
+}
+
+/**
+ * CPU and memory used by a step's processes, sampled from /proc.
+ */
+export interface ResourceUsage {
+  /** CPU time (user + system) in ms */
+  cpuTime: number;
+  /** Peak resident set size of the process group in bytes */
+  peakRss: number;
+  /** Number of samples taken */
+  samples: number;
+}
+
+/**
+ * `docker stats` samples for one compose container over a test.
+ */
+export interface ContainerStats {
+  /** Container name */
+  name: string;
+  /** Number of samples taken */
+  samples: number;
+  /** Average CPU usage in percent */
+  avgCpuPercent: number;
+  /** Highest CPU usage in percent */
+  peakCpuPercent: number;
+  /** Highest memory usage in bytes */
+  peakMemory: number;
+}
+
 /**
  * Result of executing a single test step.
  */
 export interface StepResult {
   /** Step name */
   name: string;
-  /** Command that was executed */
+  /** Command that was executed (`METHOD url` / `mcp:tool` for request and MCP steps) */
   command: string;
+  /** Step outcome */
+  status: StepStatus;
+  /** Why the step was skipped (set only for skipped steps) */
+  skipReason?: string;
   /** Captured stdout */
   stdout: string;
   /** Captured stderr */
@@ -83,16 +401,70 @@ export interface StepResult {
     expected: PatternMatch[];
     rejected: PatternMatch[];
   };
+  /** Assertion results (if assertions were defined) */
+  assertions?: AssertionResult[];
+  /** Every attempt made (only for steps with retries) */
+  attempts?: StepAttempt[];
+  /** HTTP response (only for request steps) */
+  response?: HttpResponse;
+  /** Required captures that could not be extracted */
+  captureErrors?: string[];
+  /** CPU and memory usage (only for command steps on Linux) */
+  resources?: ResourceUsage;
+  /** Snapshot comparison (only for snapshot steps) */
+  snapshot?: SnapshotResult;
+}
+
+/**
+ * A variable exported by a test, with where its value came from.
+ */
+export interface ExportedVariable {
+  /** Variable name */
+  name: string;
+  /** Exported value */
+  value: string;
+  /** Test that exported it */
+  testId: string;
+  /** Step that captured it */
+  step: string;
 }
 
+/**
+ * Final outcome of a test.
+ * - passed: all judges passed
+ * - failed: at least one judge failed
+ * - skipped: never executed (e.g. a dependency failed)
+ * - flaky: failed, then passed when rerun (`--rerun-failed`)
+ */
+export type TestStatus = 'passed' | 'failed' | 'skipped' | 'flaky';
+
 /**
  * Result of executing an entire test case.
  */
 export interface TestResult {
   /** The test case that was executed */
   testCase: TestCase;
+  /** Why the test was not executed (set only for skipped tests) */
+  skipReason?: string;
+  /** Set when the run was interrupted before this test started */
+  notRun?: boolean;
   /** Results for each step */
   steps: StepResult[];
+  /** Results for each teardown step */
+  teardown?: StepResult[];
+  /** Results of the suite hooks that ran around this test */
+  hooks?: {
+    beforeAll?: StepResult[];
+    afterAll?: StepResult[];
+  };
+  /** Variables this test exported */
+  exports?: ExportedVariable[];
+  /** Variables from dependencies that this test used */
+  imports?: ExportedVariable[];
+  /** Compose container usage while the test ran (when the log collector is active) */
+  containers?: ContainerStats[];
+  /** Paths of the collected artifact files */
+  artifacts?: string[];
   /** Total execution duration in ms */
   totalDuration: number;
   /** Extracted logs for this test (from LogCollector) */
@@ -131,6 +503,10 @@ export interface StepReportEntry {
   name: string;
   /** Command executed */
   command: string;
+  /** Step outcome */
+  status: StepStatus;
+  /** Why the step was skipped (set only for skipped steps) */
+  skipReason?: string;
   /** Exit code */
   exitCode: number;
   /** Duration in ms */
@@ -141,6 +517,18 @@ export interface StepReportEntry {
   stderr: string;
   /** Whether step passed */
   pass: boolean;
+  /** Assertion results (if assertions were defined) */
+  assertions?: AssertionResult[];
+  /** Every attempt made (only for steps with retries) */
+  attempts?: StepAttempt[];
+  /** HTTP response (only for request steps) */
+  response?: HttpResponse;
+  /** Required captures that could not be extracted */
+  captureErrors?: string[];
+  /** CPU and memory usage (only for command steps on Linux) */
+  resources?: ResourceUsage;
+  /** Snapshot comparison (only for snapshot steps) */
+  snapshot?: SnapshotResult;
 }
 
 /**
@@ -153,7 +541,13 @@ export interface TestReport {
   name: string;
   /** Test suite */
   suite: string;
-  /** Final pass/fail (both judges must pass in dual mode) */
+  /** ID of the matrix test case this test was expanded from */
+  parentId?: string;
+  /** Matrix values of this test */
+  matrix?: Record<string, string>;
+  /** Final outcome */
+  status: TestStatus;
+  /** Final pass/fail (both judges must pass in dual mode; false when skipped) */
   pass: boolean;
   /** Final reason (combined from both judges) */
   reason: string;
@@ -161,12 +555,69 @@ export interface TestReport {
   duration: number;
   /** Structured step results */
   steps: StepReportEntry[];
+  /** Structured teardown step results */
+  teardown?: StepReportEntry[];
+  /** Structured suite hook results */
+  hooks?: {
+    beforeAll?: StepReportEntry[];
+    afterAll?: StepReportEntry[];
+  };
+  /** Resource usage over all steps (when sampled) */
+  resources?: {
+    /** Total CPU time of step processes in ms */
+    cpuTime: number;
+    /** Highest peak RSS of any step in bytes */
+    peakRss: number;
+    /** Compose container usage while the test ran */
+    containers?: ContainerStats[];
+  };
+  /** Paths of the collected artifact files */
+  artifacts?: string[];
   /** Path to full log file */
   logFile: string;
   /** Simple judge verdict */
   simpleJudge: Judgment;
   /** LLM judge verdict */
   llmJudge: Judgment;
+  /** Every execution of the test, oldest first (only for rerun tests) */
+  attempts?: TestAttemptEntry[];
+}
+
+/**
+ * One execution of a test that was rerun by `--rerun-failed`. The
+ * report's own fields describe the last attempt.
+ */
+export interface TestAttemptEntry {
+  /** Attempt number (1-based) */
+  attempt: number;
+  /** Outcome of this attempt (never flaky) */
+  status: TestStatus;
+  /** Reason (combined from both judges) */
+  reason: string;
+  /** Execution duration in ms */
+  duration: number;
+  /** Structured step results */
+  steps: StepReportEntry[];
+  /** Structured teardown step results */
+  teardown?: StepReportEntry[];
+  /** Paths of the artifact files collected by this attempt */
+  artifacts?: string[];
+  /** Path to this attempt's log file */
+  logFile: string;
+  /** Simple judge verdict */
+  simpleJudge: Judgment;
+  /** LLM judge verdict */
+  llmJudge: Judgment;
+}
+
+/**
+ * One slice of a sharded run, e.g. 2/4.
+ */
+export interface Shard {
+  /** 1-based shard number */
+  index: number;
+  /** Number of shards */
+  total: number;
 }
 
 /**
@@ -187,6 +638,10 @@ export interface TestSummary {
   passed: number;
   /** Number of failing tests */
   failed: number;
+  /** Number of tests that were not executed */
+  skipped: number;
+  /** Number of tests that failed and then passed when rerun */
+  flaky: number;
   /** Simple judge breakdown */
   simple: {
     passed: number;
@@ -205,6 +660,27 @@ export interface TestSummary {
   };
   /** List of test IDs in execution order */
   tests: string[];
+  /** Shard this run covered (`run --shard`) */
+  shard?: Shard;
+  /** Results directories combined by `merge` */
+  mergedFrom?: string[];
+  /** Results of matrix test cases, grouped by parent ID */
+  matrix?: Array<{
+    parentId: string;
+    tests: string[];
+    passed: number;
+    failed: number;
+    skipped: number;
+    flaky: number;
+  }>;
+  /** Variables passed between tests, with the tests that used them */
+  exports?: Array<ExportedVariable & { usedBy: string[] }>;
+  /** Set when the run was stopped early (signal or --max-run-time) */
+  interrupted?: boolean;
+  /** Why the run was stopped */
+  interruptReason?: string;
+  /** Tests that never started because the run was interrupted */
+  notRun?: string[];
 }
 
 // ============================================
@@ -237,6 +713,18 @@ export interface RunConfig {
   workingDir: string;
   /** Path to docker-compose directory for log collection */
   dockerComposePath: string;
+  /** Maximum number of tests executing at the same time */
+  jobs: number;
+  /** Stream step output live to the terminal */
+  verbose: boolean;
+  /** Run only this shard of the resolved tests */
+  shard?: Shard;
+  /** Interrupt the run after this many ms */
+  maxRunTime?: number;
+  /** Rerun failed tests (and their dependencies) up to this many times */
+  rerunFailed: number;
+  /** Rewrite snapshot golden files with the current output */
+  updateSnapshots: boolean;
 }
 
 /**
@@ -246,4 +734,8 @@ export const DEFAULT_CONFIG: Partial<RunConfig> = {
   dryRun: false,
   noLlm: false,
   outputFormat: 'console',
+  jobs: 1,
+  verbose: false,
+  rerunFailed: 0,
+  updateSnapshots: false,
 };
@@ -0,0 +1,394 @@
+/**
+ * Test case validation for the `validate` command and the loader.
+ *
+ * Checks YAML files against the published JSON Schemas in `schema/` and the
+ * rules a schema cannot express (background step limits, snapshot options,
+ * condition operators, duplicate IDs, unknown or cyclic dependencies), and
+ * reports every problem with its file:line:column. Unknown fields are
+ * warnings; everything else is an error, and the loader refuses to load a
+ * file with errors.
+ */
+
+import { readFileSync } from 'fs';
+import { glob } from 'glob';
+import yaml from 'js-yaml';
+import path from 'path';
+import { SchemaValidator, SchemaPath } from './json-schema.js';
+import { CONDITION_KINDS, CONDITION_OPERATORS } from './conditions.js';
+import { findCycles } from './dependency-graph.js';
+import { matrixCombinations, matrixId } from './matrix.js';
+
+/** File name for suite-level hooks; never loaded as a test case. */
+export const SUITE_FILE = '_suite.yml';
+
+export interface ValidationIssue {
+  file: string;
+  /** 1-based line of the offending key or list item */
+  line: number;
+  /** 1-based column of the offending key or list item */
+  column: number;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+/**
+ * Thrown by the loader when test case or suite files have errors.
+ */
+export class TestValidationError extends Error {
+  issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[]) {
+    super(`${issues.length} error(s) in test case files`);
+    this.name = 'TestValidationError';
+    this.issues = issues;
+  }
+}
+
+type Location = { line: number; column: number };
+
+/** A validated test case, for the checks across files */
+type TestEntry = {
+  id: string;
+  dependencies: string[];
+  /** IDs of the test's matrix cases, which dependencies may name too */
+  matrixIds: string[];
+  file: string;
+  lines: string[];
+};
+
+/** Step lists of a test case or suite file, by field */
+const STEP_LISTS = ['steps', 'teardown', 'beforeAll', 'afterAll'];
+
+/**
+ * Whether a YAML value is a map (not a list or null).
+ */
+function isMap(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Format a value path as in `steps[1].request.url`.
+ */
+function formatPath(valuePath: SchemaPath): string {
+  return valuePath
+    .map((segment, index) =>
+      typeof segment === 'number'
+        ? `[${segment}]`
+        : /^[\w-]+$/.test(segment)
+          ? (index === 0 ? '' : '.') + segment
+          : `["${segment}"]`
+    )
+    .join('');
+}
+
+/**
+ * Split a YAML line into its indentation, `- ` list markers and the rest.
+ * Blank lines, comments and document markers have no content.
+ */
+function parseLine(line: string): { indent: number; dashes: number[]; column: number; text: string } | null {
+  const indent = line.search(/\S/);
+  if (indent === -1 || line[indent] === '#' || /^(---|\.\.\.)(\s|$)/.test(line)) return null;
+
+  const dashes: number[] = [];
+  let column = indent;
+  while (line[column] === '-' && (column + 1 === line.length || line[column + 1] === ' ')) {
+    dashes.push(column);
+    const rest = line.slice(column + 1).search(/\S/);
+    column = rest === -1 ? line.length : column + 1 + rest;
+  }
+  return { indent, dashes, column, text: line.slice(column) };
+}
+
+/**
+ * Find the line and column of a value in block-style YAML by walking its
+ * path: map keys are matched at their block's indentation and list items
+ * by their `-` markers. Values inside flow collections (`{...}`, `[...]`)
+ * resolve to the closest enclosing key.
+ */
+function locate(lines: string[], valuePath: SchemaPath): Location {
+  const parsed = lines.map(parseLine);
+  let start = 0;
+  let end = lines.length;
+  let column = -1;
+  let found: Location = { line: 1, column: 1 };
+
+  const firstContent = parsed.findIndex((line) => line !== null);
+  if (firstContent !== -1) {
+    found = { line: firstContent + 1, column: parsed[firstContent]!.column + 1 };
+  }
+
+  for (const segment of valuePath) {
+    // Lines of the node: up to the next line indented at or left of `from`,
+    // except list items at the same indentation as their parent key
+    const blockEnd = (after: number, from: number, allowDash: boolean) => {
+      let line = after;
+      while (line < end) {
+        const next = parsed[line];
+        if (next && (next.indent < from || (next.indent === from && !(allowDash && next.dashes.length > 0)))) break;
+        line++;
+      }
+      return line;
+    };
+
+    let match: { line: number; column: number; start: number; end: number; childColumn: number } | null = null;
+
+    if (typeof segment === 'number') {
+      let index = 0;
+      for (let line = start; line < end && !match; line++) {
+        const entry = parsed[line];
+        const dash = entry?.dashes.find((d) => column === -1 || d === column);
+        if (entry === null || dash === undefined || (line > start && dash !== entry.dashes[0])) continue;
+        if (column === -1) column = dash;
+        if (index++ === segment) {
+          const nextDash = entry.dashes[entry.dashes.indexOf(dash) + 1];
+          const childColumn = nextDash ?? (entry.text ? entry.column : -1);
+          match = {
+            line,
+            column: dash,
+            start: entry.text || nextDash !== undefined ? line : line + 1,
+            end: blockEnd(line + 1, dash + 1, false),
+            childColumn,
+          };
+        }
+      }
+    } else {
+      const keyPattern = new RegExp(`^(["']?)${segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\1\\s*:(\\s|$)`);
+      for (let line = start; line < end && !match; line++) {
+        const entry = parsed[line];
+        if (entry === null) continue;
+        if (column === -1) column = entry.column;
+        if (entry.column !== column || !keyPattern.test(entry.text)) continue;
+        match = {
+          line,
+          column: entry.column,
+          start: line + 1,
+          end: blockEnd(line + 1, entry.column, true),
+          childColumn: -1,
+        };
+      }
+    }
+
+    if (!match) break;
+    found = { line: match.line + 1, column: match.column + 1 };
+    start = match.start;
+    end = match.end;
+    column = match.childColumn;
+  }
+  return found;
+}
+
+export class TestValidator {
+  private testcasesDir: string;
+  private schemas: SchemaValidator;
+
+  constructor(testcasesDir: string) {
+    this.testcasesDir = testcasesDir;
+    const schemaDir = path.join(path.dirname(new URL(import.meta.url).pathname), '..', 'schema');
+    this.schemas = new SchemaValidator(schemaDir);
+  }
+
+  /**
+   * Validate every YAML file in the testcases directory, including the
+   * dependency graph.
+   */
+  async validateAll(): Promise<{ files: string[]; issues: ValidationIssue[] }> {
+    const files = (await glob(path.join(this.testcasesDir, '**/*.yml'))).sort();
+    return { files, issues: this.validateFiles(files, true) };
+  }
+
+  /**
+   * Validate the given files. Duplicate IDs are checked across them, and
+   * dependencies too when the files are the whole test set.
+   */
+  validateFiles(files: string[], checkDependencies = false): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const ids = new Map<string, string>();
+    const tests: TestEntry[] = [];
+    for (const file of files) {
+      issues.push(...this.validateFile(file, ids, tests));
+    }
+    if (checkDependencies) {
+      issues.push(...this.checkDependencies(tests));
+    }
+    return issues.sort(
+      (a, b) => files.indexOf(a.file) - files.indexOf(b.file) || a.line - b.line || a.column - b.column
+    );
+  }
+
+  /**
+   * Validate one file; `ids` maps the test IDs seen so far to their location
+   * and the test case is added to `tests`.
+   */
+  private validateFile(file: string, ids: Map<string, string>, tests: TestEntry[]): ValidationIssue[] {
+    const content = readFileSync(file, 'utf-8');
+    let raw: unknown;
+    try {
+      raw = yaml.load(content);
+    } catch (error) {
+      if (!(error instanceof yaml.YAMLException)) throw error;
+      return [{
+        file,
+        line: error.mark.line + 1,
+        column: error.mark.column + 1,
+        severity: 'error',
+        message: `invalid YAML: ${error.reason}`,
+      }];
+    }
+
+    const lines = content.split('\n');
+    const issues: ValidationIssue[] = [];
+    const report = (valuePath: SchemaPath, message: string, severity: 'error' | 'warning' = 'error') => {
+      issues.push({
+        file,
+        ...locate(lines, valuePath),
+        severity,
+        message: valuePath.length > 0 ? `${formatPath(valuePath)}: ${message}` : message,
+      });
+    };
+
+    const isSuite = path.basename(file) === SUITE_FILE;
+    if (!isMap(raw)) {
+      report([], `${isSuite ? 'suite file' : 'test case'} must be a YAML map`);
+      return issues;
+    }
+
+    for (const error of this.schemas.validate(raw, isSuite ? 'suite.schema.json' : 'testcase.schema.json')) {
+      report(error.path, error.message, error.unknownField ? 'warning' : 'error');
+    }
+
+    this.checkConditions(raw, [], report);
+    for (const list of STEP_LISTS) {
+      const steps = raw[list];
+      if (!Array.isArray(steps)) continue;
+      steps.forEach((step: unknown, index) => {
+        if (isMap(step)) {
+          this.checkStep(step, [list, index], report);
+        }
+      });
+    }
+
+    const id = raw.id;
+    if (!isSuite && typeof id === 'string') {
+      const first = ids.get(id);
+      if (first) {
+        report(['id'], `duplicate id '${id}' (also in ${first})`);
+      } else {
+        const { line } = locate(lines, ['id']);
+        ids.set(id, `${path.relative(process.cwd(), file)}:${line}`);
+      }
+
+      const { matrix, dependencies } = raw;
+      const validMatrix =
+        isMap(matrix) && Object.values(matrix).every((values) => Array.isArray(values) && values.length > 0);
+      tests.push({
+        id,
+        dependencies:
+          Array.isArray(dependencies) && dependencies.every((dep: unknown) => typeof dep === 'string')
+            ? dependencies
+            : [],
+        matrixIds: validMatrix
+          ? matrixCombinations(matrix as Record<string, unknown[]>).map((values) => matrixId(id, values))
+          : [],
+        file,
+        lines,
+      });
+    }
+
+    return issues;
+  }
+
+  /**
+   * Every dependency must name a test (or one of its matrix cases), and
+   * dependencies must not form a cycle.
+   */
+  private checkDependencies(tests: TestEntry[]): ValidationIssue[] {
+    const issue = (test: TestEntry, index: number, message: string): ValidationIssue => ({
+      file: test.file,
+      ...locate(test.lines, ['dependencies', index]),
+      severity: 'error',
+      message: `${formatPath(['dependencies', index])}: ${message}`,
+    });
+
+    const known = new Set(tests.flatMap((test) => [test.id, ...test.matrixIds]));
+    const issues = tests.flatMap((test) =>
+      test.dependencies.flatMap((depId, index) =>
+        known.has(depId) ? [] : [issue(test, index, `unknown test '${depId}'`)]
+      )
+    );
+
+    const byId = new Map(tests.map((test) => [test.id, test]));
+    for (const cycle of findCycles(tests)) {
+      const test = byId.get(cycle[0])!;
+      issues.push(issue(test, test.dependencies.indexOf(cycle[1]), `dependency cycle: ${cycle.join(' -> ')}`));
+    }
+    return issues;
+  }
+
+  /**
+   * Rules for a single step that the schema cannot express.
+   */
+  private checkStep(
+    step: Record<string, unknown>,
+    at: SchemaPath,
+    report: (valuePath: SchemaPath, message: string) => void
+  ): void {
+    if (step.ready !== undefined && step.background !== true) {
+      report([...at, 'ready'], "requires 'background: true'");
+    }
+    if (step.background === true) {
+      if (step.command === undefined) {
+        report([...at, 'background'], 'background steps must be command steps');
+      }
+      if (step.retries !== undefined) {
+        report([...at, 'retries'], "background steps cannot have retries; use 'ready'");
+      }
+      if (step.snapshot === true) {
+        report([...at, 'snapshot'], "background steps cannot use 'snapshot'");
+      }
+    }
+    if (step.normalize !== undefined && step.snapshot !== true) {
+      report([...at, 'normalize'], "requires 'snapshot: true'");
+    }
+
+    if (isMap(step.capture)) {
+      for (const [name, capture] of Object.entries(step.capture)) {
+        if (!isMap(capture)) continue;
+        const from = capture.from ?? 'json';
+        if (from === 'json' && capture.path === undefined) {
+          report([...at, 'capture', name], "json captures need a 'path'");
+        }
+        if (capture.regex !== undefined && from !== 'stdout' && from !== 'stderr') {
+          report([...at, 'capture', name, 'regex'], 'requires from: stdout or stderr');
+        }
+      }
+    }
+
+    this.checkConditions(step, at, report);
+  }
+
+  /**
+   * Comparison operators in `when` / `skipIf` only apply to `var` conditions.
+   */
+  private checkConditions(
+    owner: Record<string, unknown>,
+    at: SchemaPath,
+    report: (valuePath: SchemaPath, message: string) => void
+  ): void {
+    for (const field of ['when', 'skipIf']) {
+      const raw = owner[field];
+      if (raw === undefined) continue;
+      const conditions: unknown[] = Array.isArray(raw) ? raw : [raw];
+      conditions.forEach((condition, index) => {
+        if (!isMap(condition)) return;
+        const conditionPath = Array.isArray(raw) ? [...at, field, index] : [...at, field];
+        const kind = CONDITION_KINDS.find((k) => condition[k] !== undefined);
+        const operators = CONDITION_OPERATORS.filter((op) => condition[op] !== undefined);
+        if (operators.length > 1) {
+          report(conditionPath, `use only one of ${CONDITION_OPERATORS.join(', ')}`);
+        } else if (operators.length === 1 && kind !== 'var') {
+          report([...conditionPath, operators[0]], "can only be used with 'var'");
+        }
+      });
+    }
+  }
+}